@@ -7,7 +7,11 @@ const outDir = "dist/";
 await Deno.remove(outDir, { recursive: true }).catch(() => undefined);
 
 await build({
-  entryPoints: ["./mod.ts"],
+  entryPoints: ["./mod.ts", {
+    kind: "bin",
+    name: "opencode-graphiti-migrate",
+    path: "./src/migrate.ts",
+  }],
   outDir,
   shims: {
     deno: true,
@@ -50,6 +54,7 @@ await build({
         "event",
         "experimental.session.compacting",
         "experimental.chat.messages.transform",
+        "tool.execute.before",
       ],
     },
   },
@@ -0,0 +1,91 @@
+import { assertEquals } from "jsr:@std/assert@^1.0.0";
+import {
+  afterEach,
+  beforeEach,
+  describe,
+  it,
+} from "jsr:@std/testing@^1.0.0/bdd";
+import { join } from "node:path";
+import { resolveConfig, type ResolvedConfig } from "./config.ts";
+import { ConfigWatcher } from "./config-watcher.ts";
+
+describe("ConfigWatcher", () => {
+  let root: string;
+  let watcher: ConfigWatcher | undefined;
+
+  const writeConfig = (settings: unknown) =>
+    Deno.writeTextFile(
+      join(root, ".graphitirc.json"),
+      JSON.stringify(settings),
+    );
+
+  const watchChanges = () => {
+    const env = { XDG_CONFIG_HOME: root };
+    const changes: ResolvedConfig[] = [];
+    let notify = () => {};
+    watcher = new ConfigWatcher(
+      root,
+      resolveConfig(root, env),
+      (resolved) => {
+        changes.push(resolved);
+        notify();
+        return Promise.resolve();
+      },
+      { debounceMs: 20, env },
+    );
+    watcher.start();
+    const nextChange = () =>
+      new Promise<void>((resolve) => {
+        notify = resolve;
+      });
+    return { changes, nextChange };
+  };
+
+  beforeEach(async () => {
+    root = await Deno.makeTempDir();
+  });
+
+  afterEach(async () => {
+    watcher?.close();
+    await Deno.remove(root, { recursive: true });
+  });
+
+  it("should report settings from an edited config file", async () => {
+    await writeConfig({ driftThreshold: 0.3 });
+    const { changes, nextChange } = watchChanges();
+
+    const changed = nextChange();
+    await writeConfig({ driftThreshold: 0.6 });
+    await changed;
+
+    assertEquals(changes.length, 1);
+    assertEquals(changes[0].config.driftThreshold, 0.6);
+  });
+
+  it("should pick up a newly created config file", async () => {
+    const { changes, nextChange } = watchChanges();
+
+    const changed = nextChange();
+    await writeConfig({ inject: false });
+    await changed;
+
+    assertEquals(changes[0].config.inject, false);
+    assertEquals(changes[0].sources, [join(root, ".graphitirc.json")]);
+  });
+
+  it("should ignore unrelated files and unchanged settings", async () => {
+    await writeConfig({ driftThreshold: 0.3 });
+    const { changes, nextChange } = watchChanges();
+
+    await Deno.writeTextFile(join(root, "notes.md"), "Unrelated");
+    await writeConfig({ driftThreshold: 0.3 });
+    const changed = nextChange();
+    await writeConfig({ driftThreshold: 0.4 });
+    await changed;
+
+    assertEquals(
+      changes.map((change) => change.config.driftThreshold),
+      [0.4],
+    );
+  });
+});
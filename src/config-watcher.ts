@@ -0,0 +1,101 @@
+import { existsSync, type FSWatcher, watch } from "node:fs";
+import { basename, dirname } from "node:path";
+import process from "node:process";
+import {
+  getGlobalConfigPath,
+  resolveConfig,
+  type ResolvedConfig,
+} from "./config.ts";
+import { logger } from "./services/logger.ts";
+
+/** Options for {@link ConfigWatcher}. */
+export interface ConfigWatcherOptions {
+  /** Quiet period after the last file event before re-reading. */
+  debounceMs?: number;
+  /** Environment the configuration is resolved against. */
+  env?: Record<string, string | undefined>;
+}
+
+/** Whether a file name can hold configuration for the project search. */
+const isConfigFileName = (name: string) =>
+  name === "package.json" || name === ".config" || name.includes("graphiti");
+
+/**
+ * Re-resolve the configuration whenever one of its files is created,
+ * edited or removed, and report the result when it differs from the last.
+ * Directories are watched rather than files because editors often save by
+ * replacing the file.
+ */
+export class ConfigWatcher {
+  private readonly watchers = new Map<string, FSWatcher>();
+  private readonly debounceMs: number;
+  private readonly env: Record<string, string | undefined>;
+  private timer?: ReturnType<typeof setTimeout>;
+  private last: string;
+  private sources: string[];
+
+  constructor(
+    private readonly directory: string,
+    initial: ResolvedConfig,
+    private readonly onChange: (resolved: ResolvedConfig) => Promise<void>,
+    options: ConfigWatcherOptions = {},
+  ) {
+    this.debounceMs = options.debounceMs ?? 200;
+    this.env = options.env ?? process.env;
+    this.last = JSON.stringify([initial.config, initial.issues]);
+    this.sources = initial.sources;
+  }
+
+  /** Start watching the directories that can hold configuration. */
+  start(): void {
+    const files = this.sources.filter((source) => source !== "environment");
+    const directories = new Set([
+      this.directory,
+      dirname(getGlobalConfigPath(this.env)),
+      ...files.map((file) => dirname(file)),
+    ]);
+    for (const directory of directories) {
+      if (this.watchers.has(directory) || !existsSync(directory)) continue;
+      try {
+        const watcher = watch(directory, { persistent: false }, (_, name) => {
+          if (name === null || isConfigFileName(basename(String(name)))) {
+            this.schedule();
+          }
+        });
+        watcher.on("error", (err) => {
+          logger.warn("Stopped watching config directory", directory, err);
+          watcher.close();
+          this.watchers.delete(directory);
+        });
+        this.watchers.set(directory, watcher);
+      } catch (err) {
+        logger.warn("Failed to watch config directory", directory, err);
+      }
+    }
+  }
+
+  /** Stop watching and drop any pending reload. */
+  close(): void {
+    clearTimeout(this.timer);
+    for (const watcher of this.watchers.values()) watcher.close();
+    this.watchers.clear();
+  }
+
+  private schedule() {
+    clearTimeout(this.timer);
+    this.timer = setTimeout(() => this.reload(), this.debounceMs);
+  }
+
+  private reload() {
+    const resolved = resolveConfig(this.directory, this.env);
+    this.sources = resolved.sources;
+    this.start();
+    const next = JSON.stringify([resolved.config, resolved.issues]);
+    if (next === this.last) return;
+    this.last = next;
+    logger.info("Graphiti configuration changed; applying");
+    this.onChange(resolved).catch((err) =>
+      logger.error("Failed to apply reloaded config:", err)
+    );
+  }
+}
@@ -1,7 +1,12 @@
-import { assertFalse, assertStrictEquals } from "jsr:@std/assert@^1.0.0";
+import {
+  assertEquals,
+  assertFalse,
+  assertStrictEquals,
+  assertStringIncludes,
+} from "jsr:@std/assert@^1.0.0";
 import { describe, it } from "jsr:@std/testing@^1.0.0/bdd";
 import { join } from "node:path";
-import { loadConfig } from "./config.ts";
+import { loadConfig, resolveConfig } from "./config.ts";
 
 describe("config", () => {
   describe("loadConfig", () => {
@@ -75,6 +80,15 @@ describe("config", () => {
         assertStrictEquals(config.groupIdPrefix, "opencode");
         assertStrictEquals(config.driftThreshold, 0.5);
         assertStrictEquals(config.factStaleDays, 30);
+        assertStrictEquals(config.backend, "graphiti");
+        assertStrictEquals(config.writePolicy, "primary");
+        assertStrictEquals(config.endpoints, undefined);
+        assertEquals(config.searchCache, { ttlMs: 30_000, maxEntries: 200 });
+        assertEquals(config.timeouts, {
+          search: 5_000,
+          ingest: 30_000,
+          status: 5_000,
+        });
       } finally {
         Deno.chdir(previousCwd);
         await Deno.remove(cwd, { recursive: true });
@@ -97,5 +111,343 @@ describe("config", () => {
         await Deno.remove(cwd, { recursive: true });
       }
     });
+
+    it("should merge partial timeouts with defaults", async () => {
+      const cwd = await Deno.makeTempDir();
+      const previousCwd = Deno.cwd();
+      try {
+        await Deno.writeTextFile(
+          join(cwd, ".graphitirc"),
+          JSON.stringify({ timeouts: { search: 1_500 } }, null, 2),
+        );
+
+        Deno.chdir(cwd);
+        const config = loadConfig();
+        assertEquals(config.timeouts, {
+          search: 1_500,
+          ingest: 30_000,
+          status: 5_000,
+        });
+      } finally {
+        Deno.chdir(previousCwd);
+        await Deno.remove(cwd, { recursive: true });
+      }
+    });
+
+    it("should fall back to defaults for stdio without a command", async () => {
+      const cwd = await Deno.makeTempDir();
+      const previousCwd = Deno.cwd();
+      try {
+        await Deno.writeTextFile(
+          join(cwd, ".graphitirc"),
+          JSON.stringify({ transport: "stdio" }, null, 2),
+        );
+
+        Deno.chdir(cwd);
+        const config = loadConfig();
+        assertStrictEquals(config.transport, "http");
+      } finally {
+        Deno.chdir(previousCwd);
+        await Deno.remove(cwd, { recursive: true });
+      }
+    });
+
+    it("should load stdio transport settings", async () => {
+      const cwd = await Deno.makeTempDir();
+      const previousCwd = Deno.cwd();
+      try {
+        const stdio = {
+          command: "uv",
+          args: ["run", "graphiti_mcp_server.py", "--transport", "stdio"],
+          env: { NEO4J_URI: "bolt://localhost:7687" },
+        };
+        await Deno.writeTextFile(
+          join(cwd, ".graphitirc"),
+          JSON.stringify({ transport: "stdio", stdio }, null, 2),
+        );
+
+        Deno.chdir(cwd);
+        const config = loadConfig();
+        assertStrictEquals(config.transport, "stdio");
+        assertEquals(config.stdio, stdio);
+      } finally {
+        Deno.chdir(previousCwd);
+        await Deno.remove(cwd, { recursive: true });
+      }
+    });
+
+    it("should load local backend settings", async () => {
+      const cwd = await Deno.makeTempDir();
+      const previousCwd = Deno.cwd();
+      try {
+        await Deno.writeTextFile(
+          join(cwd, ".graphitirc"),
+          JSON.stringify(
+            { backend: "local", localStorePath: "/tmp/memory.jsonl" },
+            null,
+            2,
+          ),
+        );
+
+        Deno.chdir(cwd);
+        const config = loadConfig();
+        assertStrictEquals(config.backend, "local");
+        assertStrictEquals(config.localStorePath, "/tmp/memory.jsonl");
+      } finally {
+        Deno.chdir(previousCwd);
+        await Deno.remove(cwd, { recursive: true });
+      }
+    });
+
+    it("should load failover endpoints given as URLs or objects", async () => {
+      const cwd = await Deno.makeTempDir();
+      const previousCwd = Deno.cwd();
+      try {
+        await Deno.writeTextFile(
+          join(cwd, ".graphitirc"),
+          JSON.stringify(
+            {
+              endpoints: [
+                "http://primary:8000/mcp",
+                { endpoint: "http://standby:8000/mcp", headers: { a: "b" } },
+              ],
+              writePolicy: "any",
+            },
+            null,
+            2,
+          ),
+        );
+
+        Deno.chdir(cwd);
+        const config = loadConfig();
+        assertEquals(config.endpoints, [
+          { endpoint: "http://primary:8000/mcp" },
+          { endpoint: "http://standby:8000/mcp", headers: { a: "b" } },
+        ]);
+        assertStrictEquals(config.writePolicy, "any");
+      } finally {
+        Deno.chdir(previousCwd);
+        await Deno.remove(cwd, { recursive: true });
+      }
+    });
+
+    it("should layer project config and environment over global config", async () => {
+      const root = await Deno.makeTempDir();
+      try {
+        const configHome = join(root, "config");
+        const project = join(root, "project");
+        await Deno.mkdir(join(configHome, "opencode"), { recursive: true });
+        await Deno.mkdir(project);
+        await Deno.writeTextFile(
+          join(configHome, "opencode", "graphiti.jsonc"),
+          `{
+            // Shared server for every project
+            "endpoint": "http://global:8000/mcp",
+            "groupIdPrefix": "global",
+            "factStaleDays": 7,
+            "timeouts": { "search": 1000, },
+          }`,
+        );
+        await Deno.writeTextFile(
+          join(project, ".graphitirc"),
+          JSON.stringify({
+            endpoint: "http://project:8000/mcp",
+            timeouts: { ingest: 2000 },
+          }),
+        );
+
+        const config = loadConfig(project, {
+          XDG_CONFIG_HOME: configHome,
+          GRAPHITI_GROUP_ID_PREFIX: "env",
+          GRAPHITI_DRIFT_THRESHOLD: "0.7",
+        });
+        assertStrictEquals(config.endpoint, "http://project:8000/mcp");
+        assertStrictEquals(config.groupIdPrefix, "env");
+        assertStrictEquals(config.driftThreshold, 0.7);
+        assertStrictEquals(config.factStaleDays, 7);
+        assertEquals(config.timeouts, {
+          search: 1_000,
+          ingest: 2_000,
+          status: 5_000,
+        });
+      } finally {
+        await Deno.remove(root, { recursive: true });
+      }
+    });
+
+    it("should find project config above the given directory", async () => {
+      const root = await Deno.makeTempDir();
+      try {
+        const nested = join(root, "packages", "api");
+        await Deno.mkdir(nested, { recursive: true });
+        await Deno.writeTextFile(
+          join(root, ".graphitirc.jsonc"),
+          '{ "groupIdPrefix": "monorepo" /* shared */ }',
+        );
+
+        const config = loadConfig(nested, { XDG_CONFIG_HOME: root });
+        assertStrictEquals(config.groupIdPrefix, "monorepo");
+      } finally {
+        await Deno.remove(root, { recursive: true });
+      }
+    });
+  });
+
+  describe("resolveConfig", () => {
+    const resolveWith = async (
+      settings: unknown,
+      env: Record<string, string> = {},
+    ) => {
+      const root = await Deno.makeTempDir();
+      try {
+        await Deno.writeTextFile(
+          join(root, ".graphitirc.json"),
+          JSON.stringify(settings),
+        );
+        return resolveConfig(root, { XDG_CONFIG_HOME: root, ...env });
+      } finally {
+        await Deno.remove(root, { recursive: true });
+      }
+    };
+
+    it("should report no issues for a valid config", async () => {
+      const { config, issues, sources } = await resolveWith({
+        endpoint: "http://example.com/mcp",
+        driftThreshold: 0.2,
+      });
+      assertEquals(issues, []);
+      assertStrictEquals(config.driftThreshold, 0.2);
+      assertStrictEquals(sources.length, 1);
+    });
+
+    it("should keep valid settings when another one is out of range", async () => {
+      const { config, issues } = await resolveWith({
+        endpoint: "http://example.com/mcp",
+        driftThreshold: 1.5,
+        factStaleDays: 0,
+      });
+      assertStrictEquals(config.endpoint, "http://example.com/mcp");
+      assertStrictEquals(config.driftThreshold, 0.5);
+      assertStrictEquals(config.factStaleDays, 30);
+      assertStrictEquals(issues.length, 2);
+      assertStringIncludes(issues[0], "`driftThreshold`");
+      assertStringIncludes(issues[0], "using 0.5");
+      assertStringIncludes(issues[1], "`factStaleDays`");
+    });
+
+    it("should fall back per field within nested settings", async () => {
+      const { config, issues } = await resolveWith({
+        timeouts: { search: -1, ingest: 10_000 },
+      });
+      assertEquals(config.timeouts, {
+        search: 5_000,
+        ingest: 10_000,
+        status: 5_000,
+      });
+      assertStrictEquals(issues.length, 1);
+      assertStringIncludes(issues[0], "`timeouts.search`");
+    });
+
+    it("should warn about unknown settings", async () => {
+      const { config, issues } = await resolveWith({
+        endpiont: "http://typo/mcp",
+        searchCache: { ttl: 5 },
+      });
+      assertStrictEquals(config.endpoint, "http://localhost:8000/mcp");
+      assertEquals(issues, [
+        "Unknown setting `endpiont`",
+        "Unknown setting `searchCache.ttl`",
+      ]);
+    });
+
+    it("should report invalid environment overrides", async () => {
+      const { config, issues } = await resolveWith({}, {
+        GRAPHITI_FACT_STALE_DAYS: "weekly",
+      });
+      assertStrictEquals(config.factStaleDays, 30);
+      assertStringIncludes(issues[0], "`factStaleDays`");
+    });
+
+    it("should read the group ID strategy from the environment", async () => {
+      const { config, issues } = await resolveWith({}, {
+        GRAPHITI_GROUP_ID_STRATEGY: "git",
+      });
+      assertEquals(issues, []);
+      assertStrictEquals(config.groupIdStrategy, "git");
+    });
+
+    it("should read the user identity from the environment", async () => {
+      const { config, issues } = await resolveWith({}, {
+        GRAPHITI_USER_ID: "alice",
+      });
+      assertEquals(issues, []);
+      assertStrictEquals(config.userId, "alice");
+    });
+
+    it("should drop stdio endpoints without a command", async () => {
+      const { config, issues } = await resolveWith({
+        endpoints: ["http://primary/mcp", {
+          endpoint: "local",
+          transport: "stdio",
+        }],
+      });
+      assertEquals(config.endpoints, [{ endpoint: "http://primary/mcp" }]);
+      assertStringIncludes(issues[0], "stdio endpoint local");
+    });
+
+    it("should merge memory tuning settings with defaults", async () => {
+      const { config, issues } = await resolveWith({
+        retrieval: { projectFacts: 80 },
+        budget: { contextShare: 0.1 },
+        compaction: { activeDays: 14 },
+        idleFlushMinBytes: 0,
+      });
+      assertEquals(issues, []);
+      assertStrictEquals(config.retrieval.projectFacts, 80);
+      assertStrictEquals(config.retrieval.userFacts, 20);
+      assertEquals(config.budget, {
+        contextShare: 0.1,
+        tokenizer: "auto",
+        charsPerToken: 4,
+        projectShare: 0.7,
+        packageShare: 0.6,
+        relatedShare: 0.15,
+        snapshotTokens: 300,
+      });
+      assertStrictEquals(config.compaction.activeDays, 14);
+      assertStrictEquals(config.compaction.decisionShare, 0.4);
+      assertStrictEquals(config.idleFlushMinBytes, 0);
+    });
+
+    it("should reject related projects without a group ID", async () => {
+      const { config, issues } = await resolveWith({
+        relatedProjects: [{ name: "web", weight: 2 }],
+      });
+      assertEquals(config.relatedProjects, []);
+      assertStringIncludes(issues[0], "`relatedProjects.0.groupId`");
+    });
+
+    it("should reject compaction shares above the whole budget", async () => {
+      const { config, issues } = await resolveWith({
+        compaction: { decisionShare: 0.8, activeShare: 0.5 },
+      });
+      assertStrictEquals(config.compaction.decisionShare, 0.4);
+      assertStrictEquals(config.compaction.activeShare, 0.35);
+      assertStringIncludes(issues[0], "add up to more than 1");
+    });
+
+    it("should report unreadable config files", async () => {
+      const root = await Deno.makeTempDir();
+      try {
+        await Deno.writeTextFile(join(root, ".graphitirc.json"), "{ nope");
+        const { config, issues } = resolveConfig(root, {
+          XDG_CONFIG_HOME: root,
+        });
+        assertStrictEquals(config.endpoint, "http://localhost:8000/mcp");
+        assertStringIncludes(issues[0], "Failed to read project config");
+      } finally {
+        await Deno.remove(root, { recursive: true });
+      }
+    });
   });
 });
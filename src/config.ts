@@ -1,36 +1,427 @@
-import { cosmiconfigSync } from "cosmiconfig";
+import {
+  cosmiconfigSync,
+  defaultLoadersSync,
+  getDefaultSearchPlacesSync,
+} from "cosmiconfig";
+import { existsSync } from "node:fs";
+import os from "node:os";
+import { join } from "node:path";
+import process from "node:process";
 import * as z from "zod/mini";
-import type { GraphitiConfig } from "./types/index.ts";
+import { DEFAULT_COMPACTION } from "./services/compaction.ts";
+import { DEFAULT_RETRIEVAL } from "./services/context.ts";
+import { DEFAULT_BUDGET } from "./services/context-limit.ts";
+import { logger } from "./services/logger.ts";
+import type { GraphitiConfig, GraphitiEndpointConfig } from "./types/index.ts";
+import { parseJsonc } from "./utils.ts";
 
 const DEFAULT_CONFIG: GraphitiConfig = {
   endpoint: "http://localhost:8000/mcp",
+  transport: "http",
+  writePolicy: "primary",
+  backend: "graphiti",
   groupIdPrefix: "opencode",
+  groupIdStrategy: "directory",
+  branchScope: false,
+  packageScope: false,
+  globalUserScope: false,
+  relatedProjects: [],
   driftThreshold: 0.5,
   factStaleDays: 30,
+  timeouts: {
+    search: 5_000,
+    ingest: 30_000,
+    status: 5_000,
+  },
+  searchCache: {
+    ttlMs: 30_000,
+    maxEntries: 200,
+  },
+  retrieval: DEFAULT_RETRIEVAL,
+  budget: DEFAULT_BUDGET,
+  compaction: DEFAULT_COMPACTION,
+  idleFlushMinBytes: 50,
+  capture: true,
+  inject: true,
+  snapshots: true,
 };
 
-const GraphitiConfigSchema = z.object({
-  endpoint: z.string(),
-  groupIdPrefix: z.string(),
-  driftThreshold: z.number(),
-  factStaleDays: z.number(),
+const TransportSchema = z.enum(["http", "sse", "stdio"]);
+
+const StdioSchema = z.object({
+  command: z.string(),
+  args: z.optional(z.array(z.string())),
+  env: z.optional(z.record(z.string(), z.string())),
+  cwd: z.optional(z.string()),
+});
+
+const HeadersSchema = z.record(z.string(), z.string());
+
+const AuthSchema = z.object({
+  bearerTokenEnv: z.optional(z.string()),
+  bearerTokenFile: z.optional(z.string()),
+});
+
+const TlsSchema = z.object({
+  caFile: z.optional(z.string()),
+  insecure: z.optional(z.boolean()),
 });
 
+/** A failover endpoint, given either as a URL or with its own settings. */
+const EndpointSchema = z.union([
+  z.pipe(
+    z.string(),
+    z.transform((endpoint): GraphitiEndpointConfig => ({ endpoint })),
+  ),
+  z.object({
+    endpoint: z.string(),
+    transport: z.optional(TransportSchema),
+    stdio: z.optional(StdioSchema),
+    headers: z.optional(HeadersSchema),
+    auth: z.optional(AuthSchema),
+    tls: z.optional(TlsSchema),
+  }),
+]);
+
+const PositiveIntSchema = z.int().check(z.positive());
+const ShareSchema = z.number().check(z.gte(0), z.lte(1));
+
+/**
+ * Schemas of the top-level settings. Each setting is validated on its own
+ * so that an invalid value only resets that setting to its default.
+ */
+const FIELD_SCHEMAS: Record<keyof GraphitiConfig, z.core.$ZodType> = {
+  endpoint: z.string().check(z.minLength(1)),
+  transport: TransportSchema,
+  stdio: StdioSchema,
+  headers: HeadersSchema,
+  auth: AuthSchema,
+  tls: TlsSchema,
+  endpoints: z.array(EndpointSchema).check(z.minLength(1)),
+  writePolicy: z.enum(["primary", "any"]),
+  backend: z.enum(["graphiti", "local", "fallback"]),
+  localStorePath: z.string(),
+  groupIdPrefix: z.string(),
+  groupIdStrategy: z.enum(["directory", "git"]),
+  branchScope: z.boolean(),
+  packageScope: z.boolean(),
+  userId: z.string().check(z.minLength(1)),
+  globalUserScope: z.boolean(),
+  relatedProjects: z.array(z.object({
+    groupId: z.string().check(z.minLength(1)),
+    name: z.optional(z.string()),
+    weight: z.optional(z.number().check(z.positive())),
+  })),
+  driftThreshold: z.number().check(z.gte(0), z.lte(1)),
+  factStaleDays: z.number().check(z.positive()),
+  timeouts: z.object({
+    search: PositiveIntSchema,
+    ingest: PositiveIntSchema,
+    status: PositiveIntSchema,
+  }),
+  searchCache: z.object({
+    ttlMs: z.int().check(z.nonnegative()),
+    maxEntries: PositiveIntSchema,
+  }),
+  retrieval: z.object({
+    projectFacts: PositiveIntSchema,
+    projectNodes: PositiveIntSchema,
+    userFacts: PositiveIntSchema,
+    userNodes: PositiveIntSchema,
+    relatedFacts: PositiveIntSchema,
+    relatedNodes: PositiveIntSchema,
+    driftFacts: PositiveIntSchema,
+  }),
+  budget: z.object({
+    contextShare: ShareSchema,
+    tokenizer: z.enum(["auto", "heuristic", "o200k_base", "cl100k_base"]),
+    charsPerToken: z.number().check(z.positive()),
+    projectShare: ShareSchema,
+    packageShare: ShareSchema,
+    relatedShare: ShareSchema,
+    snapshotTokens: z.int().check(z.nonnegative()),
+  }),
+  compaction: z.object({
+    decisionShare: ShareSchema,
+    activeShare: ShareSchema,
+    activeDays: z.number().check(z.positive()),
+  }),
+  idleFlushMinBytes: z.int().check(z.nonnegative()),
+  capture: z.boolean(),
+  inject: z.boolean(),
+  snapshots: z.boolean(),
+};
+
+/**
+ * Settings that are merged and validated field by field instead of being
+ * replaced as a whole.
+ */
+const NESTED_KEYS = [
+  "timeouts",
+  "searchCache",
+  "retrieval",
+  "budget",
+  "compaction",
+] as const;
+
+/** Environment variables overriding top-level settings. */
+const ENV_OVERRIDES: Record<
+  string,
+  [keyof GraphitiConfig, "string" | "number"]
+> = {
+  GRAPHITI_ENDPOINT: ["endpoint", "string"],
+  GRAPHITI_TRANSPORT: ["transport", "string"],
+  GRAPHITI_BACKEND: ["backend", "string"],
+  GRAPHITI_WRITE_POLICY: ["writePolicy", "string"],
+  GRAPHITI_LOCAL_STORE_PATH: ["localStorePath", "string"],
+  GRAPHITI_GROUP_ID_PREFIX: ["groupIdPrefix", "string"],
+  GRAPHITI_GROUP_ID_STRATEGY: ["groupIdStrategy", "string"],
+  GRAPHITI_USER_ID: ["userId", "string"],
+  GRAPHITI_DRIFT_THRESHOLD: ["driftThreshold", "number"],
+  GRAPHITI_FACT_STALE_DAYS: ["factStaleDays", "number"],
+};
+
+type Env = Record<string, string | undefined>;
+type ConfigLayer = Record<string, unknown>;
+
+/** Configuration with the problems found while loading it. */
+export interface ResolvedConfig {
+  config: GraphitiConfig;
+  /** Human-readable validation problems; offending settings use defaults. */
+  issues: string[];
+  /** Files (and `environment`) the configuration was read from. */
+  sources: string[];
+}
+
+const isRecord = (value: unknown): value is ConfigLayer =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const createExplorer = () =>
+  cosmiconfigSync("graphiti", {
+    searchStrategy: "project",
+    searchPlaces: [
+      ...getDefaultSearchPlacesSync("graphiti"),
+      ".graphitirc.jsonc",
+    ],
+    loaders: {
+      ...defaultLoadersSync,
+      ".jsonc": (_filepath, content) => parseJsonc(content),
+    },
+  });
+
+/** Path of the user-global config file. */
+export const getGlobalConfigPath = (env: Env = process.env): string =>
+  join(
+    env.XDG_CONFIG_HOME || join(os.homedir(), ".config"),
+    "opencode",
+    "graphiti.jsonc",
+  );
+
+const readEnvLayer = (env: Env): ConfigLayer => {
+  const layer: ConfigLayer = {};
+  for (const [name, [key, type]] of Object.entries(ENV_OVERRIDES)) {
+    const value = env[name];
+    if (value === undefined || value === "") continue;
+    layer[key] = type === "number" ? Number(value) : value;
+  }
+  return layer;
+};
+
+const mergeLayers = (layers: ConfigLayer[]): ConfigLayer =>
+  layers.reduce((merged, layer) => {
+    const next = { ...merged, ...layer };
+    for (const key of NESTED_KEYS) {
+      if (isRecord(merged[key]) && isRecord(layer[key])) {
+        next[key] = { ...merged[key], ...layer[key] };
+      }
+    }
+    return next;
+  }, {});
+
+const describeValue = (value: unknown) =>
+  value === undefined ? "unset" : JSON.stringify(value);
+
 /**
- * Load Graphiti configuration from JSONC files with defaults applied.
+ * Validate `candidate` against `schemas` one field at a time, falling back
+ * to `defaults` for invalid fields and reporting them and unknown keys.
  */
-export function loadConfig(): GraphitiConfig {
-  const explorer = cosmiconfigSync("graphiti", { searchStrategy: "global" });
-  const result = explorer.search();
-  const candidate = result?.config ?? {};
-  const merged = {
-    ...DEFAULT_CONFIG,
-    ...candidate,
+const validateFields = (
+  schemas: Record<string, z.core.$ZodType>,
+  candidate: ConfigLayer,
+  defaults: ConfigLayer,
+  path: string,
+  issues: string[],
+): ConfigLayer => {
+  for (const key of Object.keys(candidate)) {
+    if (!(key in schemas)) issues.push(`Unknown setting \`${path}${key}\``);
+  }
+  const result: ConfigLayer = {};
+  for (const [key, schema] of Object.entries(schemas)) {
+    const value = candidate[key];
+    if (value === undefined) {
+      if (defaults[key] !== undefined) result[key] = defaults[key];
+      continue;
+    }
+    if (
+      (NESTED_KEYS as readonly string[]).includes(key) && isRecord(value) &&
+      schema instanceof z.ZodMiniObject
+    ) {
+      result[key] = validateFields(
+        schema.shape,
+        value,
+        defaults[key] as ConfigLayer,
+        `${path}${key}.`,
+        issues,
+      );
+      continue;
+    }
+    const parsed = z.safeParse(schema, value);
+    if (parsed.success) {
+      result[key] = parsed.data;
+      continue;
+    }
+    const [issue] = parsed.error.issues;
+    const where = [`${path}${key}`, ...issue.path].join(".");
+    issues.push(
+      `Invalid \`${where}\`: ${issue.message}; using ${
+        describeValue(defaults[key])
+      }`,
+    );
+    if (defaults[key] !== undefined) result[key] = defaults[key];
+  }
+  return result;
+};
+
+/** Settings that are only valid in combination with others. */
+const validateCombinations = (
+  config: GraphitiConfig,
+  issues: string[],
+): GraphitiConfig => {
+  let result = config;
+  if (result.transport === "stdio" && !result.stdio) {
+    issues.push(
+      `\`stdio\` is required when \`transport\` is \`stdio\`; using ${
+        describeValue(DEFAULT_CONFIG.transport)
+      }`,
+    );
+    result = { ...result, transport: DEFAULT_CONFIG.transport };
+  }
+  const { decisionShare, activeShare } = result.compaction;
+  if (decisionShare + activeShare > 1) {
+    issues.push(
+      "`compaction.decisionShare` and `compaction.activeShare` add up to more than 1; using defaults",
+    );
+    result = {
+      ...result,
+      compaction: {
+        ...result.compaction,
+        decisionShare: DEFAULT_COMPACTION.decisionShare,
+        activeShare: DEFAULT_COMPACTION.activeShare,
+      },
+    };
+  }
+  if (result.endpoints) {
+    const endpoints = result.endpoints.filter((endpoint) => {
+      const usable = (endpoint.transport ?? result.transport) !== "stdio" ||
+        !!(endpoint.stdio ?? result.stdio);
+      if (!usable) {
+        issues.push(
+          `\`stdio\` is required for stdio endpoint ${endpoint.endpoint}; ignoring it`,
+        );
+      }
+      return usable;
+    });
+    result = {
+      ...result,
+      endpoints: endpoints.length > 0 ? endpoints : undefined,
+    };
+  }
+  return result;
+};
+
+/** Hide header values and stdio environment values, which may be secrets. */
+const redact = (config: GraphitiConfig): unknown => {
+  const mask = (record?: Record<string, string>) =>
+    record &&
+    Object.fromEntries(Object.keys(record).map((key) => [key, "<redacted>"]));
+  const redactEndpoint = <T extends GraphitiEndpointConfig>(endpoint: T) => ({
+    ...endpoint,
+    headers: mask(endpoint.headers),
+    stdio: endpoint.stdio && {
+      ...endpoint.stdio,
+      env: mask(endpoint.stdio.env),
+    },
+  });
+  return {
+    ...redactEndpoint(config),
+    endpoints: config.endpoints?.map(redactEndpoint),
+  };
+};
+
+/**
+ * Resolve Graphiti configuration, layering (lowest precedence first) the
+ * built-in defaults, the user-global `graphiti.jsonc`, the nearest
+ * project-local config file found from `directory`, and `GRAPHITI_*`
+ * environment variables. Invalid settings fall back to their defaults and
+ * are reported in `issues`.
+ */
+export function resolveConfig(
+  directory: string = process.cwd(),
+  env: Env = process.env,
+): ResolvedConfig {
+  const explorer = createExplorer();
+  const layers: ConfigLayer[] = [];
+  const sources: string[] = [];
+  const issues: string[] = [];
+
+  const addLayer = (source: string, layer: unknown) => {
+    if (layer === undefined || layer === null) return;
+    if (!isRecord(layer)) {
+      issues.push(`${source} must contain an object; ignoring it`);
+      return;
+    }
+    layers.push(layer);
+    sources.push(source);
   };
-  const parsed = GraphitiConfigSchema.safeParse(merged);
-  if (parsed.success) {
-    return parsed.data;
+
+  const globalPath = getGlobalConfigPath(env);
+  try {
+    if (existsSync(globalPath)) {
+      addLayer(globalPath, explorer.load(globalPath)?.config);
+    }
+  } catch (err) {
+    issues.push(`Failed to read ${globalPath}: ${(err as Error).message}`);
+  }
+  try {
+    const project = explorer.search(directory);
+    if (project && project.filepath !== globalPath) {
+      addLayer(project.filepath, project.config);
+    }
+  } catch (err) {
+    issues.push(`Failed to read project config: ${(err as Error).message}`);
   }
+  const envLayer = readEnvLayer(env);
+  if (Object.keys(envLayer).length > 0) addLayer("environment", envLayer);
+
+  const validated = validateFields(
+    FIELD_SCHEMAS,
+    mergeLayers(layers),
+    { ...DEFAULT_CONFIG },
+    "",
+    issues,
+  ) as unknown as GraphitiConfig;
+  const config = validateCombinations(validated, issues);
+
+  logger.debug("Loaded Graphiti config from", sources.join(", ") || "defaults");
+  logger.debug("Effective Graphiti config", redact(config));
+  for (const issue of issues) logger.warn("Config:", issue);
+  return { config, issues, sources };
+}
 
-  return DEFAULT_CONFIG;
+/** Load Graphiti configuration; see {@link resolveConfig}. */
+export function loadConfig(
+  directory: string = process.cwd(),
+  env: Env = process.env,
+): GraphitiConfig {
+  return resolveConfig(directory, env).config;
 }
@@ -3,6 +3,9 @@ import { describe, it } from "jsr:@std/testing@^1.0.0/bdd";
 import type { GraphitiFact, GraphitiNode } from "../types/index.ts";
 import type { SessionManager } from "../session.ts";
 import type { GraphitiClient } from "../services/client.ts";
+import { DEFAULT_BUDGET } from "../services/context-limit.ts";
+import { LocalMemoryBackend } from "../services/local-backend.ts";
+import { resolveTokenCounter } from "../services/tokenizer.ts";
 import { createChatHandler } from "./chat.ts";
 
 // Mock SessionManager
@@ -110,6 +113,44 @@ class MockGraphitiClient implements Partial<GraphitiClient> {
 }
 
 describe("chat handler integration", () => {
+  describe("with local memory backend", () => {
+    it("should inject facts recalled from stored episodes", async () => {
+      const sessionManager = new MockSessionManager();
+      const client = new LocalMemoryBackend({ filePath: null });
+      await client.addEpisode({
+        name: "Decisions",
+        episodeBody:
+          "We chose Deno for the build tooling. Lunch was pizza on Friday.",
+        groupId: "test:project",
+      });
+
+      const handler = createChatHandler({
+        sessionManager: sessionManager as any,
+        driftThreshold: 0.5,
+        factStaleDays: 30,
+        client,
+      });
+
+      sessionManager.setParentId("session-1", null);
+
+      await handler(
+        { sessionID: "session-1" },
+        {
+          parts: [{ type: "text", text: "How is the build tooling set up?" }],
+        } as any,
+      );
+
+      const state = sessionManager.getState("session-1");
+      assertEquals(state.injectedMemories, true);
+      assertEquals(
+        state.cachedMemoryContext.includes(
+          "We chose Deno for the build tooling.",
+        ),
+        true,
+      );
+    });
+  });
+
   describe("initial injection", () => {
     it("should inject on first message with facts and nodes", async () => {
       const sessionManager = new MockSessionManager();
@@ -277,44 +318,7 @@ describe("chat handler integration", () => {
       assertEquals(state.cachedMemoryContext?.includes("Old snapshot"), false);
     });
 
-    it("should handle snake_case source_description field", async () => {
-      const sessionManager = new MockSessionManager();
-      const client = new MockGraphitiClient();
-
-      client.searchFactsResult = [
-        { uuid: "f1", fact: "Test fact" },
-      ];
-      client.episodesResult = [
-        {
-          uuid: "e1",
-          content: "Snapshot content",
-          source_description: "session-snapshot", // snake_case
-          created_at: "2026-02-14T12:00:00Z",
-        },
-      ];
-
-      const handler = createChatHandler({
-        sessionManager: sessionManager as any,
-        driftThreshold: 0.5,
-        factStaleDays: 30,
-        client: client as any,
-      });
-
-      sessionManager.setParentId("session-1", null);
-
-      await handler(
-        { sessionID: "session-1" },
-        { parts: [{ type: "text", text: "Hello" }] } as any,
-      );
-
-      const state = sessionManager.getState("session-1");
-      assertEquals(
-        state.cachedMemoryContext?.includes("Snapshot content"),
-        true,
-      );
-    });
-
-    it("should truncate snapshot to budget (1200 chars)", async () => {
+    it("should truncate snapshot to budget (300 tokens)", async () => {
       const sessionManager = new MockSessionManager();
       const client = new MockGraphitiClient();
 
@@ -349,8 +353,8 @@ describe("chat handler integration", () => {
       const snapshotSection = state.cachedMemoryContext?.match(
         /## Session Snapshot[\s\S]*?(?=\n\n#|$)/,
       )?.[0];
-      // Snapshot budget is min(characterBudget, 1200), so should be capped
-      // Header is ~110 chars + 1200 content = ~1310 total
+      // Snapshot budget is min(tokenBudget, 300), estimated at 4 characters
+      // per token: header is ~110 chars + 1200 content = ~1310 total
       assertStrictEquals(
         (snapshotSection?.length || 0) <= 1320,
         true,
@@ -916,7 +920,7 @@ describe("chat handler integration", () => {
       assertEquals(state.cachedMemoryContext?.includes("days ago]"), true);
     });
 
-    it("should respect character budget from context limit", async () => {
+    it("should respect the token budget from context limit", async () => {
       const sessionManager = new MockSessionManager();
       const client = new MockGraphitiClient();
 
@@ -944,7 +948,7 @@ describe("chat handler integration", () => {
       );
 
       const finalState = sessionManager.getState("session-1");
-      // Budget = 10_000 * 0.05 * 4 = 2000 chars
+      // Budget = 10_000 * 0.05 = 500 tokens, estimated at 4 chars per token
       const budget = 10_000 * 0.05 * 4;
       assertStrictEquals(
         (finalState.cachedMemoryContext?.length || 0) <= budget,
@@ -1034,6 +1038,152 @@ describe("chat handler integration", () => {
       const newCalls = client.searchFactsCalls.length - callsAfterFirst;
       assertEquals(newCalls, 2); // drift check + project facts only
     });
+
+    it("should use configured retrieval limits and budget", async () => {
+      const sessionManager = new MockSessionManager();
+      const client = new MockGraphitiClient();
+      client.searchFactsResult = [{ uuid: "f1", fact: "A".repeat(500) }];
+      client.episodesResult = [
+        {
+          uuid: "e1",
+          content: "B".repeat(500),
+          sourceDescription: "session-snapshot",
+          created_at: "2026-02-14T12:00:00Z",
+        },
+      ];
+
+      const handler = createChatHandler({
+        sessionManager: sessionManager as any,
+        driftThreshold: 0.5,
+        factStaleDays: 30,
+        client: client as any,
+        retrieval: {
+          projectFacts: 5,
+          projectNodes: 4,
+          userFacts: 3,
+          userNodes: 2,
+          relatedFacts: 1,
+          relatedNodes: 1,
+          driftFacts: 1,
+        },
+        budget: {
+          contextShare: 0.01,
+          tokenizer: "heuristic",
+          charsPerToken: 2,
+          projectShare: 0.5,
+          packageShare: 0.6,
+          relatedShare: 0.15,
+          snapshotTokens: 50,
+        },
+      });
+
+      sessionManager.setParentId("session-1", null);
+
+      await handler(
+        { sessionID: "session-1" },
+        { parts: [{ type: "text", text: "Hello" }] } as any,
+      );
+
+      assertEquals(
+        client.searchFactsCalls.map((call) => call.maxFacts),
+        [5, 3],
+      );
+      assertEquals(
+        client.searchNodesCalls.map((call) => call.maxNodes),
+        [4, 2],
+      );
+      const context = sessionManager.getState("session-1").cachedMemoryContext;
+      // 200k context * 1% = 2,000 tokens, estimated at 2 chars per token
+      assertStrictEquals(context.length <= 4_000, true);
+      assertStrictEquals(context.includes("B".repeat(100)), true);
+      assertStrictEquals(context.includes("B".repeat(101)), false);
+    });
+
+    it("should give the workspace package its share of the project budget", async () => {
+      const sessionManager = new MockSessionManager();
+      const client = new MockGraphitiClient();
+      client.searchFacts = (params) => {
+        const [groupId] = params.groupIds ?? [];
+        return Promise.resolve([{
+          uuid: groupId,
+          fact: (groupId === "test:pkg-billing" ? "P" : "R").repeat(3_000),
+        }]);
+      };
+
+      const handler = createChatHandler({
+        sessionManager: sessionManager as any,
+        driftThreshold: 0.5,
+        factStaleDays: 30,
+        client: client as any,
+        budget: {
+          contextShare: 0.01,
+          tokenizer: "heuristic",
+          charsPerToken: 2,
+          projectShare: 1,
+          packageShare: 0.75,
+          relatedShare: 0.15,
+          snapshotTokens: 50,
+        },
+      });
+
+      sessionManager.setParentId("session-1", null);
+      const { state } = await sessionManager.resolveSessionState("session-1");
+      state.groupId = "test:pkg-billing";
+      state.projectGroupIds = ["test:project"];
+      state.packageGroupId = "test:pkg-billing";
+
+      await handler(
+        { sessionID: "session-1" },
+        { parts: [{ type: "text", text: "Hello" }] } as any,
+      );
+
+      const context = sessionManager.getState("session-1").cachedMemoryContext;
+      // 2,000 tokens, three quarters of them for the package
+      assertStrictEquals(
+        context.indexOf("PPPP") < context.indexOf("RRRR"),
+        true,
+      );
+      assertStrictEquals(context.includes("P".repeat(2_500)), true);
+      assertStrictEquals(context.includes("R".repeat(1_001)), false);
+    });
+
+    it("should count the budget in tokens of the session's model", async () => {
+      const sessionManager = new MockSessionManager();
+      const client = new MockGraphitiClient();
+      client.searchFactsResult = [{ uuid: "f1", fact: " word".repeat(3_000) }];
+      const model = { providerID: "openai", modelID: "gpt-4o" };
+
+      const handler = createChatHandler({
+        sessionManager: sessionManager as any,
+        driftThreshold: 0.5,
+        factStaleDays: 30,
+        client: client as any,
+        budget: {
+          contextShare: 0.01,
+          tokenizer: "auto",
+          charsPerToken: 4,
+          projectShare: 1,
+          packageShare: 0.6,
+          relatedShare: 0.15,
+          snapshotTokens: 50,
+        },
+      });
+
+      sessionManager.setParentId("session-1", null);
+
+      await handler(
+        { sessionID: "session-1", model },
+        { parts: [{ type: "text", text: "Hello" }] } as any,
+      );
+
+      const state = sessionManager.getState("session-1");
+      assertEquals(state.model, model);
+      const counter = await resolveTokenCounter(model, DEFAULT_BUDGET);
+      const tokens = counter.count(state.cachedMemoryContext);
+      // 2,000 tokens, more characters than the 4 per token estimate allows
+      assertStrictEquals(tokens <= 2_000 && tokens > 1_900, true);
+      assertStrictEquals(state.cachedMemoryContext.length > 8_000, true);
+    });
   });
 
   describe("message counting", () => {
@@ -1104,4 +1254,105 @@ describe("chat handler integration", () => {
       assertEquals(state.pendingMessages[1], "User: Second message");
     });
   });
+
+  describe("retrieval timeout", () => {
+    it("should proceed without memory when retrieval exceeds its budget", async () => {
+      const sessionManager = new MockSessionManager();
+      const client = new MockGraphitiClient();
+      client.searchFactsResult = [{ uuid: "f1", fact: "Fact 1" }];
+      const receivedSignals: Array<AbortSignal | undefined> = [];
+      const slowSearch = (params: { signal?: AbortSignal }) => {
+        receivedSignals.push(params.signal);
+        return new Promise<any[]>((resolve) => {
+          params.signal?.addEventListener("abort", () => resolve([]));
+        });
+      };
+      (client as any).searchFacts = slowSearch;
+      (client as any).searchNodes = slowSearch;
+
+      const handler = createChatHandler({
+        sessionManager: sessionManager as any,
+        driftThreshold: 0.5,
+        factStaleDays: 30,
+        client: client as any,
+        retrievalTimeoutMs: 10,
+      });
+
+      sessionManager.setParentId("session-1", null);
+
+      await handler(
+        { sessionID: "session-1" },
+        { parts: [{ type: "text", text: "Hello" }] } as any,
+      );
+
+      const state = sessionManager.getState("session-1");
+      assertEquals(state.cachedMemoryContext, undefined);
+      assertEquals(state.pendingMessages, ["User: Hello"]);
+      assertEquals(receivedSignals.length, 4);
+      assertEquals(receivedSignals.every((signal) => signal?.aborted), true);
+    });
+
+    it("should not pass a signal when no budget is configured", async () => {
+      const sessionManager = new MockSessionManager();
+      const client = new MockGraphitiClient();
+      const receivedSignals: Array<AbortSignal | undefined> = [];
+      const originalSearch = client.searchFacts.bind(client);
+      (client as any).searchFacts = (
+        params: Parameters<typeof originalSearch>[0] & { signal?: AbortSignal },
+      ) => {
+        receivedSignals.push(params.signal);
+        return originalSearch(params);
+      };
+
+      const handler = createChatHandler({
+        sessionManager: sessionManager as any,
+        driftThreshold: 0.5,
+        factStaleDays: 30,
+        client: client as any,
+      });
+
+      sessionManager.setParentId("session-1", null);
+
+      await handler(
+        { sessionID: "session-1" },
+        { parts: [{ type: "text", text: "Hello" }] } as any,
+      );
+
+      assertEquals(receivedSignals, [undefined, undefined]);
+    });
+  });
+
+  describe("group scoping", () => {
+    it("should search every project group of a branch session", async () => {
+      const sessionManager = new MockSessionManager();
+      const client = new MockGraphitiClient();
+      client.searchFactsResult = [{ uuid: "f1", fact: "Branch fact" }];
+
+      const handler = createChatHandler({
+        sessionManager: sessionManager as any,
+        driftThreshold: 0.5,
+        factStaleDays: 30,
+        client: client as any,
+      });
+
+      sessionManager.setParentId("session-1", null);
+      const { state } = await sessionManager.resolveSessionState("session-1");
+      state.groupId = "test:branch";
+      state.projectGroupIds = ["test:branch", "test:project"];
+
+      await handler(
+        { sessionID: "session-1" },
+        { parts: [{ type: "text", text: "Hello" }] } as any,
+      );
+
+      assertEquals(client.searchFactsCalls[0].groupIds, [
+        "test:branch",
+        "test:project",
+      ]);
+      assertEquals(client.searchNodesCalls[0].groupIds, [
+        "test:branch",
+        "test:project",
+      ]);
+    });
+  });
 });
@@ -1,35 +1,71 @@
 import type { Hooks } from "@opencode-ai/plugin";
-import type { GraphitiClient } from "../services/client.ts";
-import { calculateInjectionBudget } from "../services/context-limit.ts";
+import type { MemoryBackend } from "../services/backend.ts";
+import {
+  calculateInjectionBudget,
+  DEFAULT_BUDGET,
+} from "../services/context-limit.ts";
 import {
   deduplicateContext,
+  DEFAULT_RETRIEVAL,
   formatMemoryContext,
 } from "../services/context.ts";
 import { logger } from "../services/logger.ts";
+import {
+  type ModelRef,
+  resolveTokenCounter,
+  type TokenCounter,
+  truncateToTokens,
+} from "../services/tokenizer.ts";
 import type { SessionManager } from "../session.ts";
+import type {
+  GraphitiBudgetConfig,
+  GraphitiRelatedProject,
+  GraphitiRetrievalConfig,
+} from "../types/index.ts";
 import { extractTextFromParts } from "../utils.ts";
 
 type ChatMessageHook = NonNullable<Hooks["chat.message"]>;
 type ChatMessageInput = Parameters<ChatMessageHook>[0];
 type ChatMessageOutput = Parameters<ChatMessageHook>[1];
 
-/** Dependencies for the chat message handler. */
+/**
+ * Dependencies for the chat message handler. Settings are read on every
+ * message, so changes to them apply without recreating the handler.
+ */
 export interface ChatHandlerDeps {
   sessionManager: SessionManager;
   driftThreshold: number;
   factStaleDays: number;
-  client: GraphitiClient;
+  client: MemoryBackend;
+  /** Deadline for memory retrieval per message; unbounded when omitted. */
+  retrievalTimeoutMs?: number;
+  /** Result limits per search. */
+  retrieval?: GraphitiRetrievalConfig;
+  /** Size and division of the injected memory. */
+  budget?: GraphitiBudgetConfig;
+  /** Other projects whose memory is searched as a third scope. */
+  relatedProjects?: GraphitiRelatedProject[];
+  /** Buffer user messages for ingestion. */
+  capture?: boolean;
+  /** Retrieve memory for injection. */
+  inject?: boolean;
+  /** Prime the first injection with the latest session snapshot. */
+  snapshots?: boolean;
 }
 
 /** Creates the `chat.message` hook handler. */
 export function createChatHandler(deps: ChatHandlerDeps) {
-  const { sessionManager, driftThreshold, factStaleDays, client } = deps;
+  const { sessionManager, client } = deps;
 
   const searchAndCacheMemoryContext = async (
     state: {
       groupId: string;
+      projectGroupIds?: string[];
+      packageGroupId?: string;
       userGroupId: string;
+      globalUserGroupId?: string;
       contextLimit: number;
+      model?: ModelRef;
       lastInjectionFactUuids: string[];
       cachedMemoryContext?: string;
       cachedFactUuids?: string[];
@@ -37,42 +73,109 @@ export function createChatHandler(deps: ChatHandlerDeps) {
     },
     messageText: string,
     useUserScope: boolean,
-    characterBudget: number,
+    tokenBudget: number,
+    tokenCounter: TokenCounter,
     seedFactUuids?: string[] | null,
+    signal?: AbortSignal,
   ) => {
-    const userGroupId = state.userGroupId;
+    const {
+      factStaleDays,
+      retrieval = DEFAULT_RETRIEVAL,
+      budget = DEFAULT_BUDGET,
+      relatedProjects = [],
+      snapshots = true,
+    } = deps;
+    const userGroupIds = [state.userGroupId, state.globalUserGroupId]
+      .filter((groupId): groupId is string => !!groupId);
+    const projectGroupIds = state.projectGroupIds ?? [state.groupId];
     const projectFactsPromise = client.searchFacts({
       query: messageText,
-      groupIds: [state.groupId],
-      maxFacts: 50,
+      groupIds: projectGroupIds,
+      maxFacts: retrieval.projectFacts,
+      signal,
     });
     const projectNodesPromise = client.searchNodes({
       query: messageText,
-      groupIds: [state.groupId],
-      maxNodes: 30,
+      groupIds: projectGroupIds,
+      maxNodes: retrieval.projectNodes,
+      signal,
     });
-    const userFactsPromise = useUserScope && userGroupId
+    const userFactsPromise = useUserScope && userGroupIds.length > 0
       ? client.searchFacts({
         query: messageText,
-        groupIds: [userGroupId],
-        maxFacts: 20,
+        groupIds: userGroupIds,
+        maxFacts: retrieval.userFacts,
+        signal,
       })
       : Promise.resolve([]);
-    const userNodesPromise = useUserScope && userGroupId
+    const userNodesPromise = useUserScope && userGroupIds.length > 0
       ? client.searchNodes({
         query: messageText,
-        groupIds: [userGroupId],
-        maxNodes: 10,
+        groupIds: userGroupIds,
+        maxNodes: retrieval.userNodes,
+        signal,
+      })
+      : Promise.resolve([]);
+    const packageGroupId = state.packageGroupId;
+    const packageFactsPromise = packageGroupId
+      ? client.searchFacts({
+        query: messageText,
+        groupIds: [packageGroupId],
+        maxFacts: retrieval.projectFacts,
+        signal,
       })
       : Promise.resolve([]);
+    const packageNodesPromise = packageGroupId
+      ? client.searchNodes({
+        query: messageText,
+        groupIds: [packageGroupId],
+        maxNodes: retrieval.projectNodes,
+        signal,
+      })
+      : Promise.resolve([]);
+    const relatedPromise = Promise.all(
+      relatedProjects.map(async (project) => {
+        const [facts, nodes] = await Promise.all([
+          client.searchFacts({
+            query: messageText,
+            groupIds: [project.groupId],
+            maxFacts: retrieval.relatedFacts,
+            signal,
+          }),
+          client.searchNodes({
+            query: messageText,
+            groupIds: [project.groupId],
+            maxNodes: retrieval.relatedNodes,
+            signal,
+          }),
+        ]);
+        return { project, ...deduplicateContext({ facts, nodes }) };
+      }),
+    );
 
-    const [projectFacts, projectNodes, userFacts, userNodes] = await Promise
-      .all([
-        projectFactsPromise,
-        projectNodesPromise,
-        userFactsPromise,
-        userNodesPromise,
-      ]);
+    const [
+      projectFacts,
+      projectNodes,
+      userFacts,
+      userNodes,
+      packageFacts,
+      packageNodes,
+      relatedContexts,
+    ] = await Promise.all([
+      projectFactsPromise,
+      projectNodesPromise,
+      userFactsPromise,
+      userNodesPromise,
+      packageFactsPromise,
+      packageNodesPromise,
+      relatedPromise,
+    ]);
+    if (signal?.aborted) {
+      logger.warn("Memory retrieval exceeded its budget; skipping injection", {
+        groupId: state.groupId,
+      });
+      return;
+    }
 
     const projectContext = deduplicateContext({
       facts: projectFacts,
@@ -82,6 +185,10 @@ export function createChatHandler(deps: ChatHandlerDeps) {
       facts: userFacts,
       nodes: userNodes,
     });
+    const packageContext = deduplicateContext({
+      facts: packageFacts,
+      nodes: packageNodes,
+    });
 
     const visibleSet = new Set(state.visibleFactUuids ?? []);
     const beforeProjectFacts = projectContext.facts.length;
@@ -92,6 +199,14 @@ export function createChatHandler(deps: ChatHandlerDeps) {
     userContext.facts = userContext.facts.filter((fact) =>
       !visibleSet.has(fact.uuid)
     );
+    packageContext.facts = packageContext.facts.filter((fact) =>
+      !visibleSet.has(fact.uuid)
+    );
+    for (const related of relatedContexts) {
+      related.facts = related.facts.filter((fact) =>
+        !visibleSet.has(fact.uuid)
+      );
+    }
     logger.debug("Filtered visible facts from injection", {
       visibleCount: visibleSet.size,
       filteredProjectFacts: beforeProjectFacts - projectContext.facts.length,
@@ -103,8 +218,13 @@ export function createChatHandler(deps: ChatHandlerDeps) {
     if (
       projectContext.facts.length === 0 &&
       userContext.facts.length === 0 &&
+      packageContext.facts.length === 0 &&
       projectContext.nodes.length === 0 &&
-      userContext.nodes.length === 0
+      userContext.nodes.length === 0 &&
+      packageContext.nodes.length === 0 &&
+      relatedContexts.every((related) =>
+        related.facts.length === 0 && related.nodes.length === 0
+      )
     ) {
       logger.debug("All facts filtered; skipping context cache", {
         groupId: state.groupId,
@@ -122,33 +242,49 @@ export function createChatHandler(deps: ChatHandlerDeps) {
       userContext.nodes,
       { factStaleDays },
     );
-    if (!projectContextString && !userContextString) return;
+    const packageContextString = formatMemoryContext(
+      packageContext.facts,
+      packageContext.nodes,
+      { factStaleDays },
+    );
+    const relatedSections = relatedContexts
+      .map(({ project, facts, nodes }) => ({
+        weight: project.weight ?? 1,
+        text: formatMemoryContext(facts, nodes, {
+          factStaleDays,
+          origin: project.name ?? project.groupId.replace(/__main$/, ""),
+        }),
+      }))
+      .filter((section) => section.text);
+    if (
+      !projectContextString && !userContextString && !packageContextString &&
+      relatedSections.length === 0
+    ) {
+      return;
+    }
 
     let snapshotPrimer = "";
-    if (useUserScope && characterBudget > 0) {
+    if (snapshots && useUserScope && tokenBudget > 0) {
       try {
         const episodes = await client.getEpisodes({
           groupId: state.groupId,
           lastN: 10,
+          signal,
         });
         const snapshot = episodes
-          .filter((episode) => {
-            const description = episode.sourceDescription ??
-              episode.source_description ?? "";
-            return description === "session-snapshot";
-          })
+          .filter((episode) => episode.sourceDescription === "session-snapshot")
           .sort((a, b) => {
             const aTime = a.created_at ? Date.parse(a.created_at) : 0;
             const bTime = b.created_at ? Date.parse(b.created_at) : 0;
             return bTime - aTime;
           })[0];
         if (snapshot?.content) {
-          const snapshotBudget = Math.min(characterBudget, 1200);
+          const snapshotBudget = Math.min(tokenBudget, budget.snapshotTokens);
           snapshotPrimer = [
             "## Session Snapshot",
             "> Most recent session snapshot; use to restore active strategy and open questions.",
             "",
-            snapshot.content.slice(0, snapshotBudget),
+            truncateToTokens(snapshot.content, snapshotBudget, tokenCounter),
           ].join("\n");
         }
       } catch (err) {
@@ -156,30 +292,77 @@ export function createChatHandler(deps: ChatHandlerDeps) {
       }
     }
 
+    const relatedWeight = relatedSections.reduce(
+      (total, section) => total + section.weight,
+      0,
+    );
+    const relatedBudget = relatedWeight > 0
+      ? Math.floor(tokenBudget * budget.relatedShare)
+      : 0;
+    const localBudget = tokenBudget - relatedBudget;
     const projectBudget = useUserScope
-      ? Math.floor(characterBudget * 0.7)
-      : characterBudget;
-    const userBudget = characterBudget - projectBudget;
-    const truncatedProject = projectContextString.slice(0, projectBudget);
+      ? Math.floor(localBudget * budget.projectShare)
+      : localBudget;
+    const userBudget = localBudget - projectBudget;
+    const packageBudget = packageContextString
+      ? Math.floor(projectBudget * budget.packageShare)
+      : 0;
+    const truncate = (text: string, maxTokens: number) =>
+      truncateToTokens(text, maxTokens, tokenCounter);
+    const truncatedPackage = truncate(packageContextString, packageBudget);
+    const truncatedProject = truncate(
+      projectContextString,
+      projectBudget - packageBudget,
+    );
     const truncatedUser = useUserScope
-      ? userContextString.slice(0, userBudget)
+      ? truncate(userContextString, userBudget)
       : "";
-    const memoryContext = [snapshotPrimer, truncatedProject, truncatedUser]
-      .filter((section) => section.trim().length > 0)
-      .join("\n\n")
-      .slice(0, characterBudget);
+    const truncatedRelated = relatedSections.map((section) =>
+      truncate(
+        section.text,
+        Math.floor(relatedBudget * section.weight / relatedWeight),
+      )
+    );
+    const memoryContext = truncate(
+      [
+        snapshotPrimer,
+        truncatedPackage,
+        truncatedProject,
+        truncatedUser,
+        ...truncatedRelated,
+      ]
+        .filter((section) => section.trim().length > 0)
+        .join("\n\n"),
+      tokenBudget,
+    );
     if (!memoryContext) return;
 
     const allFactUuids = [
+      ...packageContext.facts.map((fact) => fact.uuid),
       ...projectContext.facts.map((fact) => fact.uuid),
       ...userContext.facts.map((fact) => fact.uuid),
+      ...relatedContexts.flatMap((related) =>
+        related.facts.map((fact) => fact.uuid)
+      ),
     ];
     const factUuids = seedFactUuids ?? Array.from(new Set(allFactUuids));
     state.cachedMemoryContext = memoryContext;
     state.cachedFactUuids = factUuids;
+    const relatedFactCount = relatedContexts.reduce(
+      (total, related) => total + related.facts.length,
+      0,
+    );
+    const relatedNodeCount = relatedContexts.reduce(
+      (total, related) => total + related.nodes.length,
+      0,
+    );
     logger.info(
-      `Cached ${projectFacts.length + userFacts.length} facts and ${
-        projectNodes.length + userNodes.length
+      `Cached ${
+        packageFacts.length + projectFacts.length + userFacts.length +
+        relatedFactCount
+      } facts and ${
+        packageNodes.length + projectNodes.length + userNodes.length +
+        relatedNodeCount
       } nodes for user message injection`,
     );
     state.lastInjectionFactUuids = factUuids;
@@ -200,7 +383,10 @@ export function createChatHandler(deps: ChatHandlerDeps) {
     return union === 0 ? 1 : intersection / union;
   };
 
-  return async ({ sessionID }: ChatMessageInput, output: ChatMessageOutput) => {
+  return async (
+    { sessionID, model }: ChatMessageInput,
+    output: ChatMessageOutput,
+  ) => {
     if (await sessionManager.isSubagentSession(sessionID)) {
       logger.debug("Ignoring subagent chat message:", sessionID);
       return;
@@ -218,28 +404,53 @@ export function createChatHandler(deps: ChatHandlerDeps) {
       return;
     }
 
+    const {
+      driftThreshold,
+      retrievalTimeoutMs,
+      retrieval = DEFAULT_RETRIEVAL,
+      budget = DEFAULT_BUDGET,
+      capture = true,
+      inject = true,
+    } = deps;
     state.messageCount++;
+    if (model) state.model = model;
     const messageText = extractTextFromParts(output.parts);
     if (!messageText) return;
 
-    state.pendingMessages.push(`User: ${messageText}`);
-    logger.info("Buffered user message", {
-      hook: "chat.message",
-      sessionID,
-      messageLength: messageText.length,
-    });
+    if (capture) {
+      state.pendingMessages.push(`User: ${messageText}`);
+      logger.info("Buffered user message", {
+        hook: "chat.message",
+        sessionID,
+        messageLength: messageText.length,
+      });
+    }
+    if (!inject) return;
 
     const shouldInjectOnFirst = !state.injectedMemories;
     let shouldReinject = false;
 
+    const signal = retrievalTimeoutMs === undefined
+      ? undefined
+      : AbortSignal.timeout(retrievalTimeoutMs);
     let currentFactUuids: string[] | null = null;
     if (!shouldInjectOnFirst) {
       try {
         const driftFacts = await client.searchFacts({
           query: messageText,
-          groupIds: [state.groupId],
-          maxFacts: 20,
+          groupIds: [
+            ...state.packageGroupId ? [state.packageGroupId] : [],
+            ...state.projectGroupIds ?? [state.groupId],
+          ],
+          maxFacts: retrieval.driftFacts,
+          signal,
         });
+        if (signal?.aborted) {
+          logger.warn("Topic drift check exceeded its budget; skipping", {
+            sessionID,
+          });
+          return;
+        }
         currentFactUuids = driftFacts.map((fact) => fact.uuid);
         const similarity = computeJaccardSimilarity(
           currentFactUuids,
@@ -264,13 +475,16 @@ export function createChatHandler(deps: ChatHandlerDeps) {
 
     try {
       const useUserScope = shouldInjectOnFirst;
-      const characterBudget = calculateInjectionBudget(state.contextLimit);
+      const tokenBudget = calculateInjectionBudget(state.contextLimit, budget);
+      const tokenCounter = await resolveTokenCounter(state.model, budget);
       await searchAndCacheMemoryContext(
         state,
         messageText,
         useUserScope,
-        characterBudget,
+        tokenBudget,
+        tokenCounter,
         currentFactUuids,
+        signal,
       );
       state.injectedMemories = true;
     } catch (err) {
@@ -1,30 +1,58 @@
 import type { Hooks } from "@opencode-ai/plugin";
-import type { GraphitiClient } from "../services/client.ts";
+import type { MemoryBackend } from "../services/backend.ts";
 import { getCompactionContext } from "../services/compaction.ts";
-import { calculateInjectionBudget } from "../services/context-limit.ts";
+import {
+  calculateInjectionBudget,
+  DEFAULT_BUDGET,
+} from "../services/context-limit.ts";
 import { logger } from "../services/logger.ts";
+import { resolveTokenCounter } from "../services/tokenizer.ts";
 import type { SessionManager } from "../session.ts";
+import type {
+  GraphitiBudgetConfig,
+  GraphitiCompactionConfig,
+  GraphitiRetrievalConfig,
+} from "../types/index.ts";
 
 type CompactingHook = NonNullable<Hooks["experimental.session.compacting"]>;
 type CompactingInput = Parameters<CompactingHook>[0];
 type CompactingOutput = Parameters<CompactingHook>[1];
 
-/** Dependencies for the compacting handler. */
+/**
+ * Dependencies for the compacting handler. Settings are read on every
+ * compaction, so changes to them apply without recreating the handler.
+ */
 export interface CompactingHandlerDeps {
   sessionManager: SessionManager;
-  client: GraphitiClient;
+  client: MemoryBackend;
   defaultGroupId: string;
   factStaleDays: number;
+  /** Result limits per search. */
+  retrieval?: GraphitiRetrievalConfig;
+  /** Size and division of the injected memory. */
+  budget?: GraphitiBudgetConfig;
+  /** Prioritization of facts in the compaction context. */
+  compaction?: GraphitiCompactionConfig;
+  /** Add recalled facts to the compaction context. */
+  inject?: boolean;
 }
 
 /** Creates the `experimental.session.compacting` hook handler. */
 export function createCompactingHandler(deps: CompactingHandlerDeps) {
-  const { sessionManager, client, defaultGroupId, factStaleDays } = deps;
+  const { sessionManager, client, defaultGroupId } = deps;
 
   return async (
     { sessionID }: CompactingInput,
     output: CompactingOutput,
   ) => {
+    const {
+      factStaleDays,
+      retrieval,
+      budget = DEFAULT_BUDGET,
+      compaction,
+      inject = true,
+    } = deps;
+    if (!inject) return;
     const state = sessionManager.getState(sessionID);
     if (!state?.isMain) {
       logger.debug("Ignoring non-main compaction context:", sessionID);
@@ -32,16 +60,23 @@ export function createCompactingHandler(deps: CompactingHandlerDeps) {
     }
 
     const groupId = state.groupId || defaultGroupId;
-    const characterBudget = calculateInjectionBudget(state.contextLimit);
     const additionalContext = await getCompactionContext({
       client,
-      characterBudget,
+      tokenBudget: calculateInjectionBudget(state.contextLimit, budget),
+      tokenCounter: await resolveTokenCounter(state.model, budget),
       groupIds: {
-        project: groupId,
-        user: state.userGroupId,
+        project: [
+          ...state.packageGroupId ? [state.packageGroupId] : [],
+          ...state.projectGroupIds ?? [groupId],
+        ],
+        user: [state.userGroupId, state.globalUserGroupId]
+          .filter((groupId): groupId is string => !!groupId),
       },
       contextStrings: output.context,
       factStaleDays,
+      retrieval,
+      budget,
+      compaction,
     });
 
     if (additionalContext.length > 0) {
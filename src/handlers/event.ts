@@ -1,6 +1,7 @@
 import type { Hooks } from "@opencode-ai/plugin";
 import type { OpencodeClient } from "@opencode-ai/sdk";
-import type { GraphitiClient } from "../services/client.ts";
+import type { MemoryBackend } from "../services/backend.ts";
+import type { BranchScope } from "../services/branch-scope.ts";
 import { handleCompaction } from "../services/compaction.ts";
 import { resolveContextLimit } from "../services/context-limit.ts";
 import { logger } from "../services/logger.ts";
@@ -10,14 +11,29 @@ import { isTextPart, makeUserGroupId } from "../utils.ts";
 type EventHook = NonNullable<Hooks["event"]>;
 type EventInput = Parameters<EventHook>[0];
 
-/** Dependencies for the event handler. */
+/**
+ * Dependencies for the event handler. Settings are read on every event, so
+ * changes to them apply without recreating the handler.
+ */
 export interface EventHandlerDeps {
   sessionManager: SessionManager;
-  client: GraphitiClient;
+  client: MemoryBackend;
   defaultGroupId: string;
   sdkClient: OpencodeClient;
   directory: string;
   groupIdPrefix: string;
+  /** User group of new sessions; derived from `groupIdPrefix` if omitted. */
+  defaultUserGroupId?: string;
+  /** User group shared by all projects, when enabled. */
+  globalUserGroupId?: string;
+  /** Places sessions on non-default git branches in branch groups. */
+  branchScope?: BranchScope;
+  /** Minimum buffered bytes saved as an episode when a session goes idle. */
+  idleFlushMinBytes?: number;
+  /** Buffer and save conversations; nothing is written when false. */
+  capture?: boolean;
+  /** Save a session snapshot when a session goes idle. */
+  snapshots?: boolean;
 }
 
 /** Creates the `event` hook handler. */
@@ -29,8 +45,10 @@ export function createEventHandler(deps: EventHandlerDeps) {
     sdkClient,
     directory,
     groupIdPrefix,
+    defaultUserGroupId = makeUserGroupId(groupIdPrefix),
+    globalUserGroupId,
+    branchScope,
   } = deps;
-  const defaultUserGroupId = makeUserGroupId(groupIdPrefix);
 
   const buildSessionSnapshot = (
     sessionId: string,
@@ -72,6 +90,7 @@ export function createEventHandler(deps: EventHandlerDeps) {
   };
 
   return async ({ event }: EventInput) => {
+    const { idleFlushMinBytes = 50, capture = true, snapshots = true } = deps;
     try {
       if (event.type === "session.created") {
         const info = event.properties.info;
@@ -87,9 +106,12 @@ export function createEventHandler(deps: EventHandlerDeps) {
         });
 
         if (isMain) {
+          const groups = await branchScope?.resolve();
           sessionManager.setState(sessionId, {
-            groupId: defaultGroupId,
+            groupId: groups?.groupId ?? defaultGroupId,
+            projectGroupIds: groups?.projectGroupIds,
             userGroupId: defaultUserGroupId,
+            globalUserGroupId,
             injectedMemories: false,
             lastInjectionFactUuids: [],
             cachedMemoryContext: undefined,
@@ -107,6 +129,7 @@ export function createEventHandler(deps: EventHandlerDeps) {
       }
 
       if (event.type === "session.compacted") {
+        if (!capture) return;
         const sessionId = event.properties.sessionID;
         const { state, resolved } = await sessionManager.resolveSessionState(
           sessionId,
@@ -142,6 +165,7 @@ export function createEventHandler(deps: EventHandlerDeps) {
       }
 
       if (event.type === "session.idle") {
+        if (!capture) return;
         const sessionId = event.properties.sessionID;
         const { state, resolved } = await sessionManager.resolveSessionState(
           sessionId,
@@ -156,10 +180,9 @@ export function createEventHandler(deps: EventHandlerDeps) {
         }
 
         try {
-          const snapshotContent = buildSessionSnapshot(
-            sessionId,
-            state.pendingMessages,
-          );
+          const snapshotContent = snapshots
+            ? buildSessionSnapshot(sessionId, state.pendingMessages)
+            : "";
           if (snapshotContent.trim()) {
             await client.addEpisode({
               name: `Snapshot: ${sessionId}`,
@@ -177,7 +200,7 @@ export function createEventHandler(deps: EventHandlerDeps) {
         await sessionManager.flushPendingMessages(
           sessionId,
           "Buffered messages from OpenCode session",
-          50,
+          idleFlushMinBytes,
         );
         return;
       }
@@ -214,16 +237,21 @@ export function createEventHandler(deps: EventHandlerDeps) {
 
         const time = info.time as { created: number; completed?: number };
         if (!time?.completed) return;
-        if (sessionManager.isAssistantBuffered(sessionId, info.id)) return;
-
-        sessionManager.finalizeAssistantMessage(
-          state,
-          sessionId,
-          info.id,
-          "message.updated",
-        );
+        if (capture) {
+          if (sessionManager.isAssistantBuffered(sessionId, info.id)) return;
+          sessionManager.finalizeAssistantMessage(
+            state,
+            sessionId,
+            info.id,
+            "message.updated",
+          );
+        }
 
         if (info.tokens && info.providerID && info.modelID) {
+          state.model = {
+            providerID: info.providerID as string,
+            modelID: info.modelID as string,
+          };
           resolveContextLimit(
             info.providerID as string,
             info.modelID as string,
@@ -241,6 +269,7 @@ export function createEventHandler(deps: EventHandlerDeps) {
       }
 
       if (event.type === "message.part.updated") {
+        if (!capture) return;
         const part = event.properties.part;
         if (!isTextPart(part)) return;
 
@@ -9,8 +9,11 @@ type MessagesTransformHook = NonNullable<
 type MessagesTransformInput = Parameters<MessagesTransformHook>[0];
 type MessagesTransformOutput = Parameters<MessagesTransformHook>[1];
 
+/** Dependencies for the messages handler; `inject` is read on every call. */
 export interface MessagesHandlerDeps {
   sessionManager: SessionManager;
+  /** Inject cached memory into the last user message. */
+  inject?: boolean;
 }
 
 export function createMessagesHandler(deps: MessagesHandlerDeps) {
@@ -21,6 +24,8 @@ export function createMessagesHandler(deps: MessagesHandlerDeps) {
     _input: MessagesTransformInput,
     output: MessagesTransformOutput,
   ) => {
+    const { inject = true } = deps;
+    if (!inject) return;
     const lastUserEntry = [...output.messages]
       .reverse()
       .find((message) => message.info.role === "user");
@@ -0,0 +1,65 @@
+import type { Hooks } from "@opencode-ai/plugin";
+import { logger } from "../services/logger.ts";
+import { findPackage, type WorkspacePackage } from "../services/workspace.ts";
+import type { SessionManager } from "../session.ts";
+import { makePackageGroupId } from "../utils.ts";
+
+type ToolBeforeHook = NonNullable<Hooks["tool.execute.before"]>;
+type ToolBeforeInput = Parameters<ToolBeforeHook>[0];
+type ToolBeforeOutput = Parameters<ToolBeforeHook>[1];
+
+/** Dependencies for the tool handler. */
+export interface ToolHandlerDeps {
+  sessionManager: SessionManager;
+  /** Workspace root that relative tool paths are resolved against. */
+  directory: string;
+  /** Project group that package groups are derived from. */
+  defaultGroupId: string;
+  packages: WorkspacePackage[];
+}
+
+/** File or directory arguments of the built-in tools. */
+const PATH_ARGS = ["filePath", "path"];
+
+/**
+ * Creates the `tool.execute.before` hook handler, which follows the files
+ * a session works on and moves it into the group of the workspace package
+ * it touches most.
+ */
+export function createToolHandler(deps: ToolHandlerDeps) {
+  const { sessionManager, directory, defaultGroupId, packages } = deps;
+
+  return ({ sessionID }: ToolBeforeInput, output: ToolBeforeOutput) => {
+    const state = sessionManager.getState(sessionID);
+    if (!state?.isMain) return Promise.resolve();
+
+    const args = (output.args ?? {}) as Record<string, unknown>;
+    const files = PATH_ARGS
+      .map((name) => args[name])
+      .filter((value): value is string => typeof value === "string");
+    for (const file of files) {
+      const pkg = findPackage(packages, directory, file);
+      if (!pkg) continue;
+      // Kept in the session state, so it goes away with the session.
+      const counts = state.packageTouches ??= {};
+      counts[pkg.name] = (counts[pkg.name] ?? 0) + 1;
+
+      const [busiest] = Object.entries(counts).sort((a, b) => b[1] - a[1])[0];
+      const packageGroupId = makePackageGroupId(defaultGroupId, busiest);
+      if (state.packageGroupId === packageGroupId) continue;
+
+      // Sessions on a branch keep writing to their branch group.
+      const writesToPackage = state.groupId === defaultGroupId ||
+        state.groupId === state.packageGroupId;
+      state.projectGroupIds ??= [state.groupId];
+      state.packageGroupId = packageGroupId;
+      if (writesToPackage) state.groupId = packageGroupId;
+      logger.info("Session works in workspace package", {
+        sessionID,
+        package: busiest,
+        packageGroupId,
+      });
+    }
+    return Promise.resolve();
+  };
+}
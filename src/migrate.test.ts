@@ -0,0 +1,222 @@
+import { assertEquals, assertStringIncludes } from "jsr:@std/assert@^1.0.0";
+import {
+  afterEach,
+  beforeEach,
+  describe,
+  it,
+} from "jsr:@std/testing@^1.0.0/bdd";
+import { join } from "node:path";
+import { runMigrateCommand } from "./migrate.ts";
+import { readGroupAliases } from "./services/group-aliases.ts";
+import { LocalMemoryBackend } from "./services/local-backend.ts";
+import { FakeGraphitiServer } from "./testing/fake-graphiti-server.ts";
+import { makeGroupId } from "./utils.ts";
+
+describe("migrate command", () => {
+  let root: string;
+  let directory: string;
+  let storePath: string;
+  let aliasesPath: string;
+  let output: string[];
+
+  const run = (...args: string[]) =>
+    runMigrateCommand(args, {
+      directory,
+      env: { XDG_CONFIG_HOME: join(root, "config") },
+      groupAliasesPath: aliasesPath,
+      print: (line) => output.push(line),
+      printError: (line) => output.push(line),
+    });
+
+  const episodesIn = async (groupId: string) =>
+    (await new LocalMemoryBackend({ filePath: storePath }).getEpisodes({
+      groupId,
+    })).map((episode) => episode.content);
+
+  beforeEach(async () => {
+    root = await Deno.makeTempDir();
+    directory = join(root, "shop-api");
+    storePath = join(root, "local-memory.jsonl");
+    aliasesPath = join(root, "group-aliases.json");
+    output = [];
+    await Deno.mkdir(directory);
+    await Deno.writeTextFile(
+      join(directory, ".graphitirc"),
+      JSON.stringify({
+        backend: "local",
+        localStorePath: storePath,
+        groupIdPrefix: "team",
+      }),
+    );
+    await new LocalMemoryBackend({ filePath: storePath }).addEpisode({
+      name: "Cache",
+      episodeBody: "The cache uses Redis.",
+      groupId: "opencode-shop-api__main",
+    });
+  });
+
+  afterEach(async () => {
+    await Deno.remove(root, { recursive: true });
+  });
+
+  it("should copy a group into the project group and alias it", async () => {
+    const groupId = makeGroupId("team", directory);
+
+    assertEquals(await run("--from", "opencode-shop-api__main", "--alias"), 0);
+
+    assertEquals(await episodesIn(groupId), ["The cache uses Redis."]);
+    assertEquals(await episodesIn("opencode-shop-api__main"), [
+      "The cache uses Redis.",
+    ]);
+    assertEquals(await readGroupAliases(aliasesPath), {
+      [groupId]: ["opencode-shop-api__main"],
+    });
+    assertStringIncludes(output[0], `Copied 1 episode(s)`);
+  });
+
+  it("should clear the old group when moving", async () => {
+    assertEquals(
+      await run("--from", "opencode-shop-api__main", "--to", "new", "--move"),
+      0,
+    );
+
+    assertEquals(await episodesIn("new"), ["The cache uses Redis."]);
+    assertEquals(await episodesIn("opencode-shop-api__main"), []);
+    assertEquals(await readGroupAliases(aliasesPath), {});
+  });
+
+  it("should not move a group holding more episodes than copied", async () => {
+    await new LocalMemoryBackend({ filePath: storePath }).addEpisode({
+      name: "Queue",
+      episodeBody: "Jobs run on SQS.",
+      groupId: "opencode-shop-api__main",
+    });
+
+    assertEquals(
+      await run(
+        "--from",
+        "opencode-shop-api__main",
+        "--to",
+        "new",
+        "--move",
+        "--limit",
+        "1",
+      ),
+      1,
+    );
+
+    assertEquals(await episodesIn("opencode-shop-api__main"), [
+      "Jobs run on SQS.",
+      "The cache uses Redis.",
+    ]);
+    assertStringIncludes(output[1], "Left opencode-shop-api__main in place");
+  });
+
+  it("should explain its usage without a source group", async () => {
+    assertEquals(await run("--to", "new"), 2);
+
+    assertStringIncludes(output[0], "Usage: opencode-graphiti-migrate");
+  });
+
+  describe("with Graphiti", () => {
+    let server: FakeGraphitiServer;
+
+    const runGraphiti = (...args: string[]) =>
+      runMigrateCommand(args, {
+        directory,
+        env: { XDG_CONFIG_HOME: join(root, "config") },
+        queuePath: join(root, "queue.jsonl"),
+        groupAliasesPath: aliasesPath,
+        transportFactory: () => server.createTransport(),
+        print: (line) => output.push(line),
+        printError: (line) => output.push(line),
+      });
+
+    const contentsOf = (groupId: string) =>
+      server.episodes
+        .filter((episode) => episode.group_id === groupId)
+        .map((episode) => episode.content);
+
+    beforeEach(async () => {
+      server = new FakeGraphitiServer();
+      server.episodes.push({
+        uuid: "episode-old",
+        name: "Cache",
+        content: "The cache uses Redis.",
+        source: "text",
+        source_description: "",
+        group_id: "opencode-shop-api__main",
+        created_at: new Date().toISOString(),
+      });
+      await Deno.writeTextFile(
+        join(directory, ".graphitirc"),
+        JSON.stringify({ endpoint: "http://graphiti.test/mcp" }),
+      );
+    });
+
+    afterEach(async () => {
+      await server.close();
+    });
+
+    it("should clear the old group when moving", async () => {
+      assertEquals(
+        await runGraphiti(
+          "--from",
+          "opencode-shop-api__main",
+          "--to",
+          "new",
+          "--move",
+        ),
+        0,
+      );
+
+      assertEquals(contentsOf("new"), ["The cache uses Redis."]);
+      assertEquals(
+        server.callsTo("clear_graph")[0].args.group_ids,
+        ["opencode-shop-api__main"],
+      );
+    });
+
+    it("should not move a group whose copies are still queued", async () => {
+      server.fail("add_memory", "internal-error");
+
+      assertEquals(
+        await runGraphiti(
+          "--from",
+          "opencode-shop-api__main",
+          "--to",
+          "new",
+          "--move",
+        ),
+        1,
+      );
+
+      assertEquals(server.callsTo("clear_graph"), []);
+      assertStringIncludes(output.join("\n"), "1 still queued for delivery");
+      assertStringIncludes(
+        output.join("\n"),
+        "Left opencode-shop-api__main in place",
+      );
+    });
+
+    it("should report a group the server cannot clear", async () => {
+      server.hide("clear_graph");
+
+      assertEquals(
+        await runGraphiti(
+          "--from",
+          "opencode-shop-api__main",
+          "--to",
+          "new",
+          "--move",
+        ),
+        1,
+      );
+
+      assertEquals(contentsOf("opencode-shop-api__main"), [
+        "The cache uses Redis.",
+      ]);
+      assertStringIncludes(output.join("\n"), "could not be cleared");
+    });
+  });
+});
@@ -0,0 +1,167 @@
+import { resolve } from "node:path";
+import process from "node:process";
+import { parseArgs } from "node:util";
+import type { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
+import { resolveConfig } from "./config.ts";
+import { createMemoryBackend } from "./plugin.ts";
+import { addGroupAlias } from "./services/group-aliases.ts";
+import { copyGroupEpisodes } from "./services/group-migration.ts";
+import { resolveProjectName } from "./services/project-identity.ts";
+import { makeGroupId } from "./utils.ts";
+
+const USAGE = `Usage: opencode-graphiti-migrate --from <group-id> [options]
+
+Copy the episodes of a memory group into another group, e.g. after changing
+groupIdPrefix or renaming a project directory.
+
+Options:
+  --to <group-id>    Target group; defaults to the project group of --directory
+  --directory <dir>  Project directory; defaults to the working directory
+  --alias            Keep searching the old group as part of the new one
+  --move             Clear the old group once its episodes are copied
+  --limit <n>        Most recent episodes copied (default: 1000)
+  --help             Show this help`;
+
+/** Overrides for {@link runMigrateCommand}, mainly for tests. */
+export interface MigrateCommandOptions {
+  /** Project directory used when `--directory` is not given. */
+  directory?: string;
+  /** Environment the configuration is resolved with. */
+  env?: Record<string, string | undefined>;
+  /** Episode queue file of the Graphiti backend. */
+  queuePath?: string;
+  /** MCP transport factory replacing the configured transports. */
+  transportFactory?: (endpoint: string) => Transport;
+  /** Group alias registry written by `--alias`. */
+  groupAliasesPath?: string;
+  /** Prints progress; `console.log` by default. */
+  print?: (line: string) => void;
+  /** Prints problems; `console.error` by default. */
+  printError?: (line: string) => void;
+}
+
+/**
+ * Run the group migration command with command line `args`; resolves to the
+ * process exit code.
+ */
+export async function runMigrateCommand(
+  args: string[],
+  options: MigrateCommandOptions = {},
+): Promise<number> {
+  const { print = console.log, printError = console.error } = options;
+  let values;
+  try {
+    ({ values } = parseArgs({
+      args,
+      options: {
+        from: { type: "string" },
+        to: { type: "string" },
+        directory: { type: "string" },
+        alias: { type: "boolean" },
+        move: { type: "boolean" },
+        limit: { type: "string" },
+        help: { type: "boolean" },
+      },
+    }));
+  } catch (err) {
+    printError(`${(err as Error).message}\n\n${USAGE}`);
+    return 2;
+  }
+  if (values.help) {
+    print(USAGE);
+    return 0;
+  }
+  const limit = Number(values.limit ?? 1_000);
+  if (!values.from || !Number.isInteger(limit) || limit <= 0) {
+    printError(USAGE);
+    return 2;
+  }
+
+  const directory = resolve(
+    values.directory ?? options.directory ?? process.cwd(),
+  );
+  const { config, issues } = resolveConfig(directory, options.env);
+  for (const issue of issues) printError(`Configuration: ${issue}`);
+  const from = values.from;
+  const to = values.to ?? makeGroupId(
+    config.groupIdPrefix,
+    directory,
+    await resolveProjectName(directory, config.groupIdStrategy),
+  );
+  if (from === to) {
+    printError(`${from} is already the target group`);
+    return 1;
+  }
+
+  const runtime = await createMemoryBackend(config, {
+    queuePath: options.queuePath,
+    transportFactory: options.transportFactory,
+  });
+  try {
+    if (!await runtime.backend.getStatus()) {
+      printError("The memory backend is unavailable; nothing was copied");
+      return 1;
+    }
+    if (!runtime.keepsReferenceTime()) {
+      printError(
+        "Graphiti does not accept reference_time; copied episodes are " +
+          "dated now instead of their original time",
+      );
+    }
+    let copied;
+    try {
+      copied = await copyGroupEpisodes(runtime.backend, {
+        from,
+        to,
+        lastN: limit,
+      });
+    } catch (err) {
+      printError(`Could not copy ${from}: ${(err as Error).message}`);
+      return 1;
+    }
+    const queued = await runtime.queuedEpisodes(to);
+    print(
+      `Copied ${copied} episode(s) from ${from} to ${to}` +
+        (queued > 0 ? `; ${queued} still queued for delivery` : ""),
+    );
+    if (values.alias) {
+      await addGroupAlias(to, from, options.groupAliasesPath);
+      print(`Recorded ${from} as a former ID of ${to}`);
+    }
+    if (values.move && copied >= limit) {
+      printError(
+        `Left ${from} in place; it may hold more than the ${copied} ` +
+          "episode(s) copied (see --limit)",
+      );
+      return 1;
+    }
+    if (values.move && copied > 0) {
+      // The copies would be lost with the old group if they never arrive.
+      if (queued > 0) {
+        printError(
+          `Left ${from} in place; ${queued} episode(s) for ${to} are not ` +
+            "delivered yet",
+        );
+        return 1;
+      }
+      try {
+        if (!runtime.backend.clearGroups) throw new Error("not supported");
+        await runtime.backend.clearGroups([from]);
+      } catch (err) {
+        printError(
+          `Left ${from} in place; it could not be cleared: ` +
+            (err as Error).message,
+        );
+        return 1;
+      }
+      print(`Cleared ${from}`);
+    }
+    return 0;
+  } finally {
+    await runtime.close();
+  }
+}
+
+if (import.meta.main) {
+  process.exitCode = await runMigrateCommand(process.argv.slice(2));
+}
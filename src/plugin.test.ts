@@ -0,0 +1,459 @@
+import { assertEquals, assertStringIncludes } from "jsr:@std/assert@^1.0.0";
+import {
+  afterEach,
+  beforeEach,
+  describe,
+  it,
+} from "jsr:@std/testing@^1.0.0/bdd";
+import { join } from "node:path";
+import { FakeGraphitiServer } from "./testing/fake-graphiti-server.ts";
+import { PluginHarness } from "./testing/harness.ts";
+import type { GraphitiConfig } from "./types/index.ts";
+import {
+  makeGlobalUserGroupId,
+  makeGroupId,
+  makePackageGroupId,
+  makeUserGroupId,
+} from "./utils.ts";
+
+const DIRECTORY = "/work/shop-api";
+const GROUP_ID = makeGroupId("test", DIRECTORY);
+
+describe("graphiti plugin end to end", () => {
+  let server: FakeGraphitiServer;
+  let dataDir: string;
+
+  const boot = (config?: Partial<GraphitiConfig>) =>
+    PluginHarness.boot({ server, directory: DIRECTORY, dataDir, config });
+
+  const lastUserText = async (harness: PluginHarness, sessionId: string) => {
+    const messages = await harness.transformMessages(sessionId);
+    const part = messages.at(-1)?.parts[0] as { text?: string } | undefined;
+    return part?.text ?? "";
+  };
+
+  beforeEach(async () => {
+    server = new FakeGraphitiServer();
+    dataDir = await Deno.makeTempDir();
+  });
+
+  afterEach(async () => {
+    await server.close();
+    await Deno.remove(dataDir, { recursive: true });
+  });
+
+  it("should inject facts from the server into the user message", async () => {
+    server.addFact(GROUP_ID, {
+      uuid: "fact-1",
+      fact: "Deployments go through the staging cluster first",
+    });
+    server.addNode(GROUP_ID, { uuid: "node-1", name: "Staging cluster" });
+    const harness = await boot();
+
+    await harness.createSession("s1");
+    await harness.sendUserMessage("s1", "How do we deploy the API?");
+
+    const text = await lastUserText(harness, "s1");
+    assertStringIncludes(text, '<memory data-uuids="fact-1">');
+    assertStringIncludes(
+      text,
+      "Deployments go through the staging cluster first",
+    );
+    assertStringIncludes(text, "How do we deploy the API?");
+    assertEquals(
+      server.callsTo("search_memory_facts")[0].args.group_ids,
+      [GROUP_ID],
+    );
+  });
+
+  it("should ingest the conversation and a snapshot when idle", async () => {
+    const harness = await boot();
+
+    await harness.createSession("s1");
+    await harness.sendUserMessage("s1", "Please switch the cache to Redis.");
+    await harness.sendAssistantMessage("s1", "Done, the cache now uses Redis.");
+    await harness.idle("s1");
+
+    assertEquals(
+      server.episodes.map((episode) => episode.source_description),
+      ["session-snapshot", "Buffered messages from OpenCode session"],
+    );
+    for (const episode of server.episodes) {
+      assertEquals(episode.group_id, GROUP_ID);
+    }
+    assertStringIncludes(
+      server.episodes[1].content,
+      "Please switch the cache to Redis.",
+    );
+  });
+
+  it("should replay queued episodes after the server recovers", async () => {
+    const harness = await boot();
+    server.fail("add_memory", "disconnect", 1);
+
+    await harness.createSession("s1");
+    await harness.compact("s1", "First summary");
+    assertEquals(server.episodes.length, 0);
+
+    await harness.compact("s1", "Second summary");
+    assertEquals(
+      server.episodes.map((episode) => episode.content),
+      ["First summary", "Second summary"],
+    );
+    assertEquals(server.connections, 2);
+  });
+
+  it("should recall from the next endpoint while the primary is down", async () => {
+    const standby = new FakeGraphitiServer();
+    standby.addFact(GROUP_ID, { uuid: "fact-2", fact: "Served by standby" });
+    const harness = await PluginHarness.boot({
+      server,
+      servers: { "http://standby/mcp": standby },
+      directory: DIRECTORY,
+      dataDir,
+      config: {
+        endpoints: [
+          { endpoint: "http://fake-graphiti/mcp" },
+          { endpoint: "http://standby/mcp" },
+        ],
+      },
+    });
+    await server.goOffline();
+
+    await harness.createSession("s1");
+    await harness.sendUserMessage("s1", "Who serves the facts?");
+
+    assertStringIncludes(
+      await lastUserText(harness, "s1"),
+      "Served by standby",
+    );
+    await standby.close();
+  });
+
+  it("should apply reloaded settings and endpoints without a restart", async () => {
+    const standby = new FakeGraphitiServer();
+    standby.addFact(GROUP_ID, { uuid: "fact-2", fact: "Served by standby" });
+    const harness = await PluginHarness.boot({
+      server,
+      servers: { "http://standby/mcp": standby },
+      directory: DIRECTORY,
+      dataDir,
+      config: { inject: false },
+    });
+
+    await harness.createSession("s1");
+    await harness.sendUserMessage("s1", "Who serves the facts?");
+    assertEquals(await lastUserText(harness, "s1"), "Who serves the facts?");
+
+    await harness.reloadConfig({ endpoint: "http://standby/mcp" });
+    await harness.createSession("s2");
+    await harness.sendUserMessage("s2", "Who serves the facts?");
+
+    assertStringIncludes(
+      await lastUserText(harness, "s2"),
+      "Served by standby",
+    );
+    assertEquals(server.callsTo("search_memory_facts"), []);
+    await standby.close();
+  });
+
+  it("should apply only the latest of overlapping reloads", async () => {
+    const replaced = new FakeGraphitiServer();
+    const standby = new FakeGraphitiServer();
+    standby.addFact(GROUP_ID, { uuid: "fact-2", fact: "Served by standby" });
+    const harness = await PluginHarness.boot({
+      server,
+      servers: {
+        "http://replaced/mcp": replaced,
+        "http://standby/mcp": standby,
+      },
+      directory: DIRECTORY,
+      dataDir,
+    });
+
+    await Promise.all([
+      harness.reloadConfig({ endpoint: "http://replaced/mcp" }),
+      harness.reloadConfig({ endpoint: "http://standby/mcp" }),
+    ]);
+    await harness.createSession("s1");
+    await harness.sendUserMessage("s1", "Who serves the facts?");
+
+    assertStringIncludes(
+      await lastUserText(harness, "s1"),
+      "Served by standby",
+    );
+    assertEquals(replaced.connections, 0);
+    await replaced.close();
+    await standby.close();
+  });
+
+  it("should skip injection when retrieval exceeds its deadline", async () => {
+    server.addFact(GROUP_ID, { uuid: "fact-1", fact: "Slow fact" });
+    const harness = await boot({
+      timeouts: { search: 50, ingest: 1_000, status: 1_000 },
+    });
+    server.delay("search_memory_facts", 5_000);
+
+    await harness.createSession("s1");
+    await harness.sendUserMessage("s1", "Anything about slow facts?");
+
+    assertEquals(
+      await lastUserText(harness, "s1"),
+      "Anything about slow facts?",
+    );
+  });
+
+  it("should add known facts to the compaction context", async () => {
+    server.addFact(GROUP_ID, {
+      uuid: "fact-1",
+      fact: "The team decided to keep PostgreSQL as the primary store",
+    });
+    const harness = await boot();
+
+    await harness.createSession("s1");
+    const context = await harness.compact("s1", "Summary", [
+      "Discussed the database choice",
+    ]);
+
+    assertStringIncludes(context.join("\n"), "keep PostgreSQL");
+    assertEquals(server.episodes.at(-1)?.content, "Summary");
+  });
+
+  it("should leave subagent sessions alone", async () => {
+    server.addFact(GROUP_ID, { uuid: "fact-1", fact: "Some fact" });
+    const harness = await boot();
+
+    await harness.createSession("s1");
+    await harness.createSession("child", "s1");
+    await harness.sendUserMessage("child", "Subagent task");
+    await harness.idle("child");
+
+    assertEquals(server.callsTo("search_memory_facts"), []);
+    assertEquals(server.callsTo("add_memory"), []);
+    assertEquals(await lastUserText(harness, "child"), "Subagent task");
+  });
+
+  it("should recall without writing when capture is disabled", async () => {
+    server.addFact(GROUP_ID, { uuid: "fact-1", fact: "Curated team fact" });
+    const harness = await boot({ capture: false });
+
+    await harness.createSession("s1");
+    await harness.sendUserMessage("s1", "What does the team know?");
+    assertStringIncludes(
+      await lastUserText(harness, "s1"),
+      "Curated team fact",
+    );
+    await harness.sendAssistantMessage("s1", "Here is what we know.");
+    await harness.idle("s1");
+    const context = await harness.compact("s1", "Summary", ["Team facts"]);
+
+    assertStringIncludes(context.join("\n"), "Curated team fact");
+    assertEquals(server.callsTo("add_memory"), []);
+  });
+
+  it("should record without recalling when injection is disabled", async () => {
+    server.addFact(GROUP_ID, { uuid: "fact-1", fact: "Some fact" });
+    const harness = await boot({ inject: false });
+
+    await harness.createSession("s1");
+    await harness.sendUserMessage("s1", "Please switch the cache to Redis.");
+    assertEquals(
+      await lastUserText(harness, "s1"),
+      "Please switch the cache to Redis.",
+    );
+    await harness.sendAssistantMessage("s1", "Done, the cache now uses Redis.");
+    await harness.idle("s1");
+    const context = await harness.compact("s1", "Summary", ["Cache work"]);
+
+    assertEquals(context, ["Cache work"]);
+    assertEquals(server.callsTo("search_memory_facts"), []);
+    assertEquals(
+      server.episodes.map((episode) => episode.content).at(-1),
+      "Summary",
+    );
+  });
+
+  it("should neither save nor load snapshots when they are disabled", async () => {
+    server.addFact(GROUP_ID, { uuid: "fact-1", fact: "Some fact" });
+    const harness = await boot({ snapshots: false });
+
+    await harness.createSession("s1");
+    await harness.sendUserMessage("s1", "Please switch the cache to Redis.");
+    await harness.sendAssistantMessage("s1", "Done, the cache now uses Redis.");
+    await harness.idle("s1");
+
+    assertEquals(
+      server.episodes.map((episode) => episode.source_description),
+      ["Buffered messages from OpenCode session"],
+    );
+    assertEquals(server.callsTo("get_episodes"), []);
+  });
+
+  it("should recall and record in the package a session works on", async () => {
+    const directory = join(dataDir, "monorepo");
+    await Deno.mkdir(join(directory, "packages", "billing"), {
+      recursive: true,
+    });
+    await Deno.writeTextFile(
+      join(directory, "package.json"),
+      JSON.stringify({ workspaces: ["packages/*"] }),
+    );
+    await Deno.writeTextFile(
+      join(directory, "packages", "billing", "package.json"),
+      JSON.stringify({ name: "@shop/billing" }),
+    );
+    const groupId = makeGroupId("test", directory);
+    const packageGroupId = makePackageGroupId(groupId, "@shop/billing");
+    server.addFact(packageGroupId, {
+      uuid: "fact-1",
+      fact: "Invoices are rounded to whole cents",
+    });
+    const harness = await PluginHarness.boot({
+      server,
+      directory,
+      dataDir,
+      config: { packageScope: true, userId: "alice" },
+    });
+
+    await harness.createSession("s1");
+    await harness.touchFile("s1", "packages/billing/src/invoice.ts");
+    await harness.sendUserMessage("s1", "How are invoices rounded?");
+
+    assertStringIncludes(
+      await lastUserText(harness, "s1"),
+      "Invoices are rounded to whole cents",
+    );
+    await harness.sendAssistantMessage("s1", "To whole cents.");
+    await harness.idle("s1");
+    assertEquals(
+      server.callsTo("search_memory_facts")
+        .map((call) => call.args.group_ids)
+        .sort(),
+      [
+        [groupId],
+        [packageGroupId],
+        [makeUserGroupId("test", directory, undefined, "alice")],
+      ]
+        .sort(),
+    );
+    for (const episode of server.episodes) {
+      assertEquals(episode.group_id, packageGroupId);
+    }
+  });
+
+  it("should share the user's preferences across projects", async () => {
+    const globalUserGroupId = makeGlobalUserGroupId("test", "alice");
+    const harness = await boot({ userId: "alice", globalUserScope: true });
+
+    await harness.createSession("s1");
+    await harness.sendUserMessage(
+      "s1",
+      "Add a health check. I prefer early returns over nested ifs.",
+    );
+    await harness.sendAssistantMessage("s1", "Added the health check.");
+    await harness.idle("s1");
+
+    assertEquals(
+      server.callsTo("search_memory_facts")
+        .map((call) => call.args.group_ids)
+        .at(-1),
+      [
+        makeUserGroupId("test", DIRECTORY, undefined, "alice"),
+        globalUserGroupId,
+      ],
+    );
+    const preferences = server.episodes.filter((episode) =>
+      episode.group_id === globalUserGroupId
+    );
+    assertEquals(preferences.map((episode) => episode.content), [
+      "alice: I prefer early returns over nested ifs.",
+    ]);
+  });
+
+  it("should name the user as the speaker of their messages", async () => {
+    const harness = await boot({ userId: "alice@example.com" });
+
+    await harness.createSession("s1");
+    await harness.sendUserMessage("s1", "Please switch the cache to Redis.");
+    await harness.sendAssistantMessage("s1", "Done, the cache now uses Redis.");
+    await harness.idle("s1");
+
+    assertEquals(
+      server.episodes.at(-1)?.content,
+      "alice@example.com: Please switch the cache to Redis.\n\n" +
+        "Assistant: Done, the cache now uses Redis.",
+    );
+  });
+
+  it("should keep recalling memories stored under a former group ID", async () => {
+    await Deno.writeTextFile(
+      join(dataDir, "group-aliases.json"),
+      JSON.stringify({ [GROUP_ID]: ["opencode-shop-api__main"] }),
+    );
+    server.addFact("opencode-shop-api__main", {
+      uuid: "fact-1",
+      fact: "Deployments go through the staging cluster first",
+    });
+    const harness = await boot();
+
+    await harness.createSession("s1");
+    await harness.sendUserMessage("s1", "How do we deploy the API?");
+
+    assertStringIncludes(
+      await lastUserText(harness, "s1"),
+      "Deployments go through the staging cluster first",
+    );
+    assertEquals(
+      server.callsTo("search_memory_facts")[0].args.group_ids,
+      [GROUP_ID, "opencode-shop-api__main"],
+    );
+  });
+
+  it("should label memories recalled from related projects", async () => {
+    server.addFact(GROUP_ID, {
+      uuid: "fact-1",
+      fact: "The API serves prices in cents",
+    });
+    server.addFact("opencode-web-app__main", {
+      uuid: "fact-2",
+      fact: "The storefront formats prices with Intl.NumberFormat",
+    });
+    const harness = await boot({
+      relatedProjects: [{ groupId: "opencode-web-app__main", name: "web-app" }],
+    });
+
+    await harness.createSession("s1");
+    await harness.sendUserMessage("s1", "How are prices formatted?");
+
+    const text = await lastUserText(harness, "s1");
+    assertStringIncludes(text, '<memory data-uuids="fact-1,fact-2">');
+    const related = text.indexOf("# Related Project Memory: web-app");
+    assertEquals(
+      related > text.indexOf("The API serves prices in cents"),
+      true,
+    );
+    assertEquals(
+      text.indexOf("Intl.NumberFormat") > related,
+      true,
+    );
+  });
+
+  it("should use local memory when configured without a server", async () => {
+    const harness = await boot({ backend: "local" });
+
+    await harness.createSession("s1");
+    await harness.sendUserMessage("s1", "We store sessions in Redis.");
+    await harness.sendAssistantMessage("s1", "Noted, sessions live in Redis.");
+    await harness.idle("s1");
+
+    await harness.createSession("s2");
+    await harness.sendUserMessage("s2", "Where do sessions live?");
+
+    assertStringIncludes(await lastUserText(harness, "s2"), "Redis");
+    assertEquals(server.connections, 0);
+    assertEquals(
+      (await Deno.stat(join(dataDir, "local-memory.jsonl"))).isFile,
+      true,
+    );
+  });
+});
@@ -0,0 +1,407 @@
+import type { Plugin, PluginInput } from "@opencode-ai/plugin";
+import type { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
+import { resolveConfig, type ResolvedConfig } from "./config.ts";
+import { ConfigWatcher } from "./config-watcher.ts";
+import { createChatHandler } from "./handlers/chat.ts";
+import { createCompactingHandler } from "./handlers/compacting.ts";
+import { createEventHandler } from "./handlers/event.ts";
+import { createMessagesHandler } from "./handlers/messages.ts";
+import { createToolHandler } from "./handlers/tool.ts";
+import {
+  FallbackMemoryBackend,
+  type MemoryBackend,
+  ReloadableMemoryBackend,
+} from "./services/backend.ts";
+import { BranchScope } from "./services/branch-scope.ts";
+import { GraphitiClient } from "./services/client.ts";
+import {
+  EpisodeQueue,
+  getDefaultQueuePath,
+  getEndpointQueuePath,
+} from "./services/episode-queue.ts";
+import {
+  type FailoverMember,
+  FailoverMemoryBackend,
+} from "./services/failover.ts";
+import { getUserEmail } from "./services/git.ts";
+import {
+  AliasingMemoryBackend,
+  readGroupAliases,
+} from "./services/group-aliases.ts";
+import { LocalMemoryBackend } from "./services/local-backend.ts";
+import { logger } from "./services/logger.ts";
+import { CachingMemoryBackend } from "./services/search-cache.ts";
+import { resolveProjectName } from "./services/project-identity.ts";
+import { describeTransport } from "./services/transport.ts";
+import { detectWorkspacePackages } from "./services/workspace.ts";
+import { SessionManager } from "./session.ts";
+import type { GraphitiConfig, GraphitiEndpointConfig } from "./types/index.ts";
+import {
+  makeGlobalUserGroupId,
+  makeGroupId,
+  makeUserGroupId,
+} from "./utils.ts";
+
+/** Overrides for {@link createGraphitiPlugin}, mainly for tests. */
+export interface GraphitiPluginOptions {
+  /** Configuration used instead of the config files. */
+  config?: GraphitiConfig;
+  /** MCP transport factory replacing the configured transports. */
+  transportFactory?: (endpoint: string) => Transport;
+  /** Episode queue file; defaults to one in the OpenCode data directory. */
+  queuePath?: string;
+  /** Group alias registry; defaults to one in the OpenCode data directory. */
+  groupAliasesPath?: string;
+  /**
+   * Subscribe to configuration changes instead of watching the config
+   * files. Files are only watched when `config` is not given.
+   */
+  watchConfig?: (onChange: (resolved: ResolvedConfig) => Promise<void>) => void;
+}
+
+/** Options of {@link createMemoryBackend}. */
+export interface MemoryBackendOptions extends GraphitiPluginOptions {
+  /**
+   * Episode queues by file, reused when the backend is rebuilt so that the
+   * old and new clients never hold separate queues on one file.
+   */
+  queues?: Map<string, EpisodeQueue>;
+}
+
+/** A built memory backend and how to release its connections. */
+export interface MemoryRuntime {
+  backend: MemoryBackend;
+  /** Whether stored episodes keep the reference time they are given. */
+  keepsReferenceTime(): boolean;
+  /** Episodes of `groupId` still waiting in the delivery queues. */
+  queuedEpisodes(groupId: string): Promise<number>;
+  close(): Promise<void>;
+}
+
+/** Settings whose change requires rebuilding the memory backend. */
+const BACKEND_KEYS = [
+  "endpoint",
+  "transport",
+  "stdio",
+  "headers",
+  "auth",
+  "tls",
+  "endpoints",
+  "writePolicy",
+  "backend",
+  "localStorePath",
+  "timeouts",
+  "searchCache",
+] as const satisfies (keyof GraphitiConfig)[];
+
+const backendChanged = (previous: GraphitiConfig, next: GraphitiConfig) =>
+  BACKEND_KEYS.some((key) =>
+    JSON.stringify(previous[key]) !== JSON.stringify(next[key])
+  );
+
+/** Settings the handlers read on every call. */
+const handlerSettings = (config: GraphitiConfig) => ({
+  driftThreshold: config.driftThreshold,
+  factStaleDays: config.factStaleDays,
+  retrievalTimeoutMs: config.timeouts.search,
+  retrieval: config.retrieval,
+  budget: config.budget,
+  relatedProjects: config.relatedProjects,
+  compaction: config.compaction,
+  idleFlushMinBytes: config.idleFlushMinBytes,
+  capture: config.capture,
+  inject: config.inject,
+  snapshots: config.snapshots,
+});
+
+/** Resolve the configured Graphiti servers, inheriting top-level settings. */
+const resolveEndpoints = (config: GraphitiConfig): GraphitiEndpointConfig[] =>
+  (config.endpoints?.length ? config.endpoints : [{
+    endpoint: config.endpoint,
+  }]).map((endpoint) => ({
+    endpoint: endpoint.endpoint,
+    transport: endpoint.transport ?? config.transport,
+    stdio: endpoint.stdio ?? config.stdio,
+    headers: endpoint.headers ?? config.headers,
+    auth: endpoint.auth ?? config.auth,
+    tls: endpoint.tls ?? config.tls,
+  }));
+
+/**
+ * Build the configured memory backend, connecting to Graphiti when it is
+ * involved.
+ */
+export const createMemoryBackend = async (
+  config: GraphitiConfig,
+  options: MemoryBackendOptions,
+): Promise<MemoryRuntime> => {
+  const local = () =>
+    new LocalMemoryBackend({ filePath: config.localStorePath });
+  const cached = (backend: MemoryBackend) =>
+    config.searchCache.ttlMs > 0
+      ? new CachingMemoryBackend(backend, config.searchCache)
+      : backend;
+  if (config.backend === "local") {
+    logger.info("Using local memory backend");
+    return {
+      backend: cached(local()),
+      keepsReferenceTime: () => true,
+      queuedEpisodes: () => Promise.resolve(0),
+      close: () => Promise.resolve(),
+    };
+  }
+
+  const endpoints = resolveEndpoints(config);
+  const queuePath = options.queuePath ?? getDefaultQueuePath();
+  const queues: EpisodeQueue[] = [];
+  const queueFor = (path: string) => {
+    let queue = options.queues?.get(path);
+    if (!queue) {
+      queue = new EpisodeQueue(path);
+      options.queues?.set(path, queue);
+    }
+    queues.push(queue);
+    return queue;
+  };
+  const members: FailoverMember[] = endpoints.map((endpoint) => {
+    const transportFactory = options.transportFactory;
+    const client = new GraphitiClient(endpoint.endpoint, {
+      queue: queueFor(
+        endpoints.length === 1
+          ? queuePath
+          : getEndpointQueuePath(endpoint.endpoint, queuePath),
+      ),
+      timeouts: config.timeouts,
+      transport: endpoint.transport,
+      stdio: endpoint.stdio,
+      headers: endpoint.headers,
+      auth: endpoint.auth,
+      tls: endpoint.tls,
+      transportFactory: transportFactory &&
+        (() => transportFactory(endpoint.endpoint)),
+    });
+    const label = describeTransport({
+      type: endpoint.transport ?? config.transport,
+      endpoint: endpoint.endpoint,
+      stdio: endpoint.stdio,
+    });
+    return { label, backend: client };
+  });
+  const clients = members.map((member) => member.backend as GraphitiClient);
+
+  const remote = members.length === 1
+    ? members[0].backend
+    : new FailoverMemoryBackend(members, { writePolicy: config.writePolicy });
+
+  const connected = await Promise.all(
+    clients.map((client) => client.connect()),
+  );
+  if (!connected.some(Boolean)) {
+    logger.warn(
+      "Could not connect to Graphiti MCP server at",
+      members.map((member) => member.label).join(", "),
+    );
+    logger.warn(
+      config.backend === "fallback"
+        ? "Recalling from local memory until connection is established"
+        : "Memory features will be unavailable until connection is established",
+    );
+  }
+
+  return {
+    backend: cached(
+      config.backend === "fallback"
+        ? new FallbackMemoryBackend(remote, local())
+        : remote,
+    ),
+    keepsReferenceTime: () =>
+      clients.every((client) => client.keepsReferenceTime),
+    queuedEpisodes: async (groupId) => {
+      const pending = await Promise.all(queues.map((queue) => queue.list()));
+      return pending.flat()
+        .filter((entry) => entry.episode.groupId === groupId).length;
+    },
+    close: async () => {
+      await Promise.all(clients.map((client) => client.disconnect()));
+    },
+  };
+};
+
+/** Surface configuration problems in the OpenCode UI. */
+const reportConfigIssues = (
+  sdkClient: PluginInput["client"],
+  issues: string[],
+) => {
+  sdkClient.tui.showToast({
+    body: {
+      title: "Graphiti configuration",
+      message: issues.join("\n"),
+      variant: "warning",
+    },
+  }).catch((err) => logger.warn("Failed to show config toast:", err));
+};
+
+/**
+ * Create the Graphiti memory plugin. Kept out of the package entry point
+ * because OpenCode treats every export of that module as a plugin.
+ */
+export const createGraphitiPlugin = (
+  options: GraphitiPluginOptions = {},
+): Plugin =>
+async (input: PluginInput) => {
+  const { config: initialConfig, issues, sources } = options.config
+    ? { config: options.config, issues: [], sources: [] }
+    : resolveConfig(input.directory);
+  if (issues.length > 0) reportConfigIssues(input.client, issues);
+  let config = initialConfig;
+  const backendOptions = {
+    ...options,
+    queues: new Map<string, EpisodeQueue>(),
+  };
+  let runtime = await createMemoryBackend(config, backendOptions);
+  const reloadable = new ReloadableMemoryBackend(runtime.backend);
+  const client = new AliasingMemoryBackend(
+    reloadable,
+    await readGroupAliases(options.groupAliasesPath),
+  );
+  const sdkClient = input.client;
+
+  const projectName = await resolveProjectName(
+    input.directory,
+    config.groupIdStrategy,
+  );
+  const defaultGroupId = makeGroupId(
+    config.groupIdPrefix,
+    input.directory,
+    projectName,
+  );
+  const userId = config.userId ?? await getUserEmail(input.directory);
+  const defaultUserGroupId = makeUserGroupId(
+    config.groupIdPrefix,
+    input.directory,
+    projectName,
+    userId,
+  );
+  const globalUserGroupId = config.globalUserScope
+    ? makeGlobalUserGroupId(config.groupIdPrefix, userId)
+    : undefined;
+  logger.info("Plugin initialized. Group ID:", defaultGroupId);
+
+  const branchScope = config.branchScope
+    ? new BranchScope(client, {
+      directory: input.directory,
+      mainGroupId: defaultGroupId,
+    })
+    : undefined;
+  // Promoting writes memory, which sessions without capture must not do.
+  if (config.capture) {
+    branchScope?.reconcile().catch((err) =>
+      logger.error("Failed to reconcile branch memory groups:", err)
+    );
+  }
+
+  const sessionManager = new SessionManager(
+    defaultGroupId,
+    defaultUserGroupId,
+    sdkClient,
+    client,
+    { branchScope, globalUserGroupId, userName: userId },
+  );
+  const packages = config.packageScope
+    ? await detectWorkspacePackages(input.directory)
+    : [];
+
+  const eventDeps = {
+    sessionManager,
+    client,
+    defaultGroupId,
+    sdkClient,
+    directory: input.directory,
+    groupIdPrefix: config.groupIdPrefix,
+    defaultUserGroupId,
+    globalUserGroupId,
+    branchScope,
+    ...handlerSettings(config),
+  };
+  const chatDeps = { sessionManager, client, ...handlerSettings(config) };
+  const compactingDeps = {
+    sessionManager,
+    client,
+    defaultGroupId,
+    ...handlerSettings(config),
+  };
+  const messagesDeps = { sessionManager, ...handlerSettings(config) };
+
+  // Reloads run one at a time, and those a newer configuration replaced
+  // while they waited or built their backend are dropped.
+  let applying: Promise<unknown> = Promise.resolve();
+  let latestReload = 0;
+  const applyConfig = (resolved: ResolvedConfig): Promise<void> => {
+    const reload = ++latestReload;
+    const run = applying.then(() =>
+      reload === latestReload ? apply(resolved, reload) : undefined
+    );
+    applying = run.catch(() => undefined);
+    return run;
+  };
+  const apply = async (resolved: ResolvedConfig, reload: number) => {
+    const next = resolved.config;
+    if (resolved.issues.length > 0) {
+      reportConfigIssues(sdkClient, resolved.issues);
+    }
+    if (backendChanged(config, next)) {
+      const built = await createMemoryBackend(next, backendOptions);
+      if (reload !== latestReload) {
+        await built.close();
+        return;
+      }
+      const previous = runtime;
+      runtime = built;
+      reloadable.replace(runtime.backend);
+      await previous.close();
+      logger.info("Rebuilt memory backend for the new configuration");
+    }
+    if (
+      next.groupIdPrefix !== config.groupIdPrefix ||
+      next.groupIdStrategy !== config.groupIdStrategy ||
+      next.branchScope !== config.branchScope ||
+      next.packageScope !== config.packageScope ||
+      next.userId !== config.userId ||
+      next.globalUserScope !== config.globalUserScope
+    ) {
+      logger.warn("Group ID changes apply after a restart");
+    }
+    for (const deps of [eventDeps, chatDeps, compactingDeps, messagesDeps]) {
+      Object.assign(deps, handlerSettings(next));
+    }
+    config = next;
+  };
+  if (options.watchConfig) {
+    options.watchConfig(applyConfig);
+  } else if (!options.config) {
+    new ConfigWatcher(
+      input.directory,
+      { config, issues, sources },
+      applyConfig,
+    ).start();
+  }
+
+  return {
+    event: createEventHandler(eventDeps),
+    "chat.message": createChatHandler(chatDeps),
+    "experimental.session.compacting": createCompactingHandler(
+      compactingDeps,
+    ),
+    "experimental.chat.messages.transform": createMessagesHandler(
+      messagesDeps,
+    ),
+    ...packages.length > 0 && {
+      "tool.execute.before": createToolHandler({
+        sessionManager,
+        directory: input.directory,
+        defaultGroupId,
+        packages,
+      }),
+    },
+  };
+};
@@ -0,0 +1,99 @@
+import { assertEquals } from "jsr:@std/assert@^1.0.0";
+import { describe, it } from "jsr:@std/testing@^1.0.0/bdd";
+import type { GraphitiEpisodeInput, GraphitiFact } from "../types/index.ts";
+import {
+  FallbackMemoryBackend,
+  ReloadableMemoryBackend,
+  type RemoteMemoryBackend,
+} from "./backend.ts";
+import { LocalMemoryBackend } from "./local-backend.ts";
+
+class FakeRemoteBackend implements RemoteMemoryBackend {
+  available = true;
+  episodes: GraphitiEpisodeInput[] = [];
+  facts: GraphitiFact[] = [{ uuid: "remote", fact: "Remote fact" }];
+
+  addEpisode(params: GraphitiEpisodeInput) {
+    this.episodes.push(params);
+    return Promise.resolve();
+  }
+  searchFacts() {
+    return Promise.resolve(this.facts);
+  }
+  searchNodes() {
+    return Promise.resolve([]);
+  }
+  getEpisodes() {
+    return Promise.resolve([]);
+  }
+  getStatus() {
+    return Promise.resolve(this.available);
+  }
+}
+
+describe("FallbackMemoryBackend", () => {
+  it("should write episodes to both backends", async () => {
+    const remote = new FakeRemoteBackend();
+    const local = new LocalMemoryBackend({ filePath: null });
+    const backend = new FallbackMemoryBackend(remote, local);
+
+    await backend.addEpisode({ name: "Note", episodeBody: "Note body" });
+
+    assertEquals(remote.episodes.length, 1);
+    assertEquals((await local.getEpisodes({})).length, 1);
+  });
+
+  it("should recall locally while the remote backend is unavailable", async () => {
+    const remote = new FakeRemoteBackend();
+    const local = new LocalMemoryBackend({ filePath: null });
+    const backend = new FallbackMemoryBackend(remote, local);
+    await backend.addEpisode({
+      name: "Note",
+      episodeBody: "The cache is stored in Redis.",
+    });
+
+    const query = { query: "where is the cache stored" };
+    assertEquals((await backend.searchFacts(query))[0].uuid, "remote");
+
+    remote.available = false;
+    assertEquals(
+      (await backend.searchFacts(query))[0].fact,
+      "The cache is stored in Redis.",
+    );
+    assertEquals(await backend.getStatus(), true);
+  });
+
+  it("should remove the local copy of a deleted episode", async () => {
+    const remote = new FakeRemoteBackend();
+    const local = new LocalMemoryBackend({ filePath: null });
+    const backend = new FallbackMemoryBackend(remote, local);
+    await backend.addEpisode({ name: "Note", episodeBody: "api_key=secret" });
+
+    await backend.removeEpisode({
+      uuid: "remote-uuid",
+      name: "Note",
+      content: "api_key=secret",
+    });
+
+    assertEquals(await local.getEpisodes({}), []);
+  });
+});
+
+describe("ReloadableMemoryBackend", () => {
+  it("should route calls to the replacement backend", async () => {
+    const first = new FakeRemoteBackend();
+    const second = new FakeRemoteBackend();
+    second.facts = [{ uuid: "second", fact: "Second fact" }];
+    const backend = new ReloadableMemoryBackend(first);
+
+    assertEquals(backend.replace(second), first);
+    await backend.addEpisode({ name: "Note", episodeBody: "Note body" });
+
+    assertEquals(
+      (await backend.searchFacts({ query: "fact" }))[0].uuid,
+      "second",
+    );
+    assertEquals(first.episodes, []);
+    assertEquals(second.episodes.length, 1);
+  });
+});
@@ -0,0 +1,154 @@
+import type {
+  GraphitiEpisode,
+  GraphitiEpisodeInput,
+  GraphitiFact,
+  GraphitiNode,
+} from "../types/index.ts";
+
+/** Parameters for {@link MemoryBackend.searchFacts}. */
+export interface SearchFactsParams {
+  query: string;
+  groupIds?: string[];
+  maxFacts?: number;
+  signal?: AbortSignal;
+}
+
+/** Parameters for {@link MemoryBackend.searchNodes}. */
+export interface SearchNodesParams {
+  query: string;
+  groupIds?: string[];
+  maxNodes?: number;
+  signal?: AbortSignal;
+}
+
+/** Parameters for {@link MemoryBackend.getEpisodes}. */
+export interface GetEpisodesParams {
+  groupId?: string;
+  lastN?: number;
+  signal?: AbortSignal;
+  /** Throw when the episodes cannot be read instead of resolving to none. */
+  strict?: boolean;
+}
+
+/**
+ * Storage and recall operations the handlers and session manager rely on.
+ * Reads resolve to empty results on failure, except strict `getEpisodes`;
+ * `addEpisode` throws when the episode could not be stored.
+ */
+export interface MemoryBackend {
+  /** Store an episode. */
+  addEpisode(params: GraphitiEpisodeInput): Promise<void>;
+  /** Search facts matching the query. */
+  searchFacts(params: SearchFactsParams): Promise<GraphitiFact[]>;
+  /** Search nodes (entities) matching the query. */
+  searchNodes(params: SearchNodesParams): Promise<GraphitiNode[]>;
+  /** Retrieve the most recent episodes of a group. */
+  getEpisodes(params: GetEpisodesParams): Promise<GraphitiEpisode[]>;
+  /** Check whether the backend can currently serve requests. */
+  getStatus(signal?: AbortSignal): Promise<boolean>;
+  /** Delete everything stored in the given groups, where supported. */
+  clearGroups?(groupIds: string[]): Promise<void>;
+  /** Delete an episode returned by `getEpisodes`, where supported. */
+  removeEpisode?(episode: GraphitiEpisode): Promise<void>;
+}
+
+/** A backend that can tell cheaply whether it is reachable right now. */
+export interface RemoteMemoryBackend extends MemoryBackend {
+  /** Whether requests are currently expected to reach the server. */
+  readonly available: boolean;
+}
+
+/**
+ * Serve recall from a remote backend while it is available and from a local
+ * backend otherwise. Every episode is written to both, so the local copy
+ * can answer on its own whenever the remote server is down.
+ */
+export class FallbackMemoryBackend implements MemoryBackend {
+  constructor(
+    private readonly primary: RemoteMemoryBackend,
+    private readonly fallback: MemoryBackend,
+  ) {}
+
+  async addEpisode(params: GraphitiEpisodeInput): Promise<void> {
+    await this.fallback.addEpisode(params);
+    await this.primary.addEpisode(params);
+  }
+
+  searchFacts(params: SearchFactsParams): Promise<GraphitiFact[]> {
+    return this.reader.searchFacts(params);
+  }
+
+  searchNodes(params: SearchNodesParams): Promise<GraphitiNode[]> {
+    return this.reader.searchNodes(params);
+  }
+
+  getEpisodes(params: GetEpisodesParams): Promise<GraphitiEpisode[]> {
+    // The local copy may lack episodes the remote server holds.
+    return params.strict
+      ? this.primary.getEpisodes(params)
+      : this.reader.getEpisodes(params);
+  }
+
+  async getStatus(signal?: AbortSignal): Promise<boolean> {
+    return await this.primary.getStatus(signal) ||
+      await this.fallback.getStatus(signal);
+  }
+
+  async clearGroups(groupIds: string[]): Promise<void> {
+    await this.fallback.clearGroups?.(groupIds);
+    await this.primary.clearGroups?.(groupIds);
+  }
+
+  /** Delete the episode and its local copy, e.g. when it captured secrets. */
+  async removeEpisode(episode: GraphitiEpisode): Promise<void> {
+    await this.fallback.removeEpisode?.(episode);
+    await this.primary.removeEpisode?.(episode);
+  }
+
+  private get reader(): MemoryBackend {
+    return this.primary.available ? this.primary : this.fallback;
+  }
+}
+
+/**
+ * Forward every call to a backend that can be swapped while the plugin runs,
+ * so a configuration reload reaches all holders of the backend at once.
+ */
+export class ReloadableMemoryBackend implements MemoryBackend {
+  constructor(private current: MemoryBackend) {}
+
+  /** Route further calls to `next`; returns the backend it replaces. */
+  replace(next: MemoryBackend): MemoryBackend {
+    const previous = this.current;
+    this.current = next;
+    return previous;
+  }
+
+  addEpisode(params: GraphitiEpisodeInput): Promise<void> {
+    return this.current.addEpisode(params);
+  }
+
+  searchFacts(params: SearchFactsParams): Promise<GraphitiFact[]> {
+    return this.current.searchFacts(params);
+  }
+
+  searchNodes(params: SearchNodesParams): Promise<GraphitiNode[]> {
+    return this.current.searchNodes(params);
+  }
+
+  getEpisodes(params: GetEpisodesParams): Promise<GraphitiEpisode[]> {
+    return this.current.getEpisodes(params);
+  }
+
+  getStatus(signal?: AbortSignal): Promise<boolean> {
+    return this.current.getStatus(signal);
+  }
+
+  async clearGroups(groupIds: string[]): Promise<void> {
+    await this.current.clearGroups?.(groupIds);
+  }
+
+  async removeEpisode(episode: GraphitiEpisode): Promise<void> {
+    await this.current.removeEpisode?.(episode);
+  }
+}
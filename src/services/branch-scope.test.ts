@@ -0,0 +1,245 @@
+import { assertEquals, assertRejects } from "jsr:@std/assert@^1.0.0";
+import {
+  afterEach,
+  beforeEach,
+  describe,
+  it,
+} from "jsr:@std/testing@^1.0.0/bdd";
+import { join } from "node:path";
+import type { MemoryBackend } from "./backend.ts";
+import { BranchScope } from "./branch-scope.ts";
+import { LocalMemoryBackend } from "./local-backend.ts";
+
+const MAIN_GROUP = "test-shop-api__main";
+const BRANCH_GROUP = "test-shop-api__branch-spike_cache";
+
+const git = async (directory: string, ...args: string[]) => {
+  const { success } = await new Deno.Command("git", {
+    args: [
+      "-C",
+      directory,
+      "-c",
+      "user.name=Test",
+      "-c",
+      "user.email=test@example.com",
+      ...args,
+    ],
+    stdout: "null",
+    stderr: "null",
+  }).output();
+  if (!success) throw new Error(`git ${args.join(" ")} failed`);
+};
+
+describe("BranchScope", () => {
+  let root: string;
+  let repo: string;
+  let client: LocalMemoryBackend;
+  let scope: BranchScope;
+
+  const episodesIn = async (groupId: string) =>
+    (await client.getEpisodes({ groupId })).map((episode) => episode.content);
+
+  const trackedGroups = async () =>
+    Object.keys(
+      JSON.parse(await Deno.readTextFile(join(root, "branch-groups.json"))),
+    );
+
+  /** Start a session on a new branch and record a note in its group. */
+  const workOnBranch = async () => {
+    await git(repo, "checkout", "-q", "-b", "spike/cache");
+    await git(repo, "commit", "-q", "--allow-empty", "-m", "Try Redis");
+    const groups = await scope.resolve();
+    await client.addEpisode({
+      name: "Note",
+      episodeBody: "The cache uses Redis.",
+      groupId: groups.groupId,
+    });
+    await git(repo, "checkout", "-q", "main");
+  };
+
+  beforeEach(async () => {
+    root = await Deno.makeTempDir();
+    repo = join(root, "repo");
+    await Deno.mkdir(repo);
+    await git(repo, "init", "-q", "-b", "main");
+    await git(repo, "commit", "-q", "--allow-empty", "-m", "Initial");
+    client = new LocalMemoryBackend({ filePath: null });
+    scope = new BranchScope(client, {
+      directory: repo,
+      mainGroupId: MAIN_GROUP,
+      registryPath: join(root, "branch-groups.json"),
+    });
+  });
+
+  afterEach(async () => {
+    await Deno.remove(root, { recursive: true });
+  });
+
+  it("should use the main group on the default branch", async () => {
+    assertEquals(await scope.resolve(), {
+      groupId: MAIN_GROUP,
+      projectGroupIds: [MAIN_GROUP],
+    });
+  });
+
+  it("should write to a branch group searched with the main group", async () => {
+    await git(repo, "checkout", "-q", "-b", "spike/cache");
+
+    assertEquals(await scope.resolve(), {
+      groupId: BRANCH_GROUP,
+      projectGroupIds: [BRANCH_GROUP, MAIN_GROUP],
+    });
+  });
+
+  it("should keep the group while the branch exists", async () => {
+    await workOnBranch();
+
+    await scope.reconcile();
+
+    assertEquals(await episodesIn(BRANCH_GROUP), ["The cache uses Redis."]);
+    assertEquals(await episodesIn(MAIN_GROUP), []);
+  });
+
+  it("should promote the group of a merged and deleted branch", async () => {
+    await workOnBranch();
+    await git(repo, "merge", "-q", "--ff-only", "spike/cache");
+    await git(repo, "branch", "-q", "-d", "spike/cache");
+
+    await scope.reconcile();
+
+    assertEquals(await episodesIn(MAIN_GROUP), ["The cache uses Redis."]);
+    assertEquals(await episodesIn(BRANCH_GROUP), []);
+  });
+
+  it("should keep the group of a branch deleted unmerged", async () => {
+    await workOnBranch();
+    await git(repo, "branch", "-q", "-D", "spike/cache");
+
+    await scope.reconcile();
+
+    assertEquals(await episodesIn(MAIN_GROUP), []);
+    assertEquals(await episodesIn(BRANCH_GROUP), ["The cache uses Redis."]);
+    assertEquals(await trackedGroups(), []);
+  });
+
+  it("should keep the group while the branch exists on a remote", async () => {
+    await git(root, "init", "-q", "--bare", "origin.git");
+    await git(repo, "remote", "add", "origin", join(root, "origin.git"));
+    await workOnBranch();
+    await git(repo, "push", "-q", "origin", "spike/cache");
+    await git(repo, "merge", "-q", "--ff-only", "spike/cache");
+    await git(repo, "branch", "-q", "-d", "spike/cache");
+
+    await scope.reconcile();
+
+    assertEquals(await episodesIn(MAIN_GROUP), []);
+    assertEquals(await episodesIn(BRANCH_GROUP), ["The cache uses Redis."]);
+  });
+
+  it("should leave the groups of other repositories alone", async () => {
+    await workOnBranch();
+    await git(repo, "merge", "-q", "--ff-only", "spike/cache");
+    const other = join(root, "other");
+    await Deno.mkdir(other);
+    await git(other, "init", "-q", "-b", "main");
+    await git(other, "commit", "-q", "--allow-empty", "-m", "Initial");
+
+    await new BranchScope(client, {
+      directory: other,
+      mainGroupId: MAIN_GROUP,
+      registryPath: join(root, "branch-groups.json"),
+    }).reconcile();
+
+    assertEquals(await episodesIn(BRANCH_GROUP), ["The cache uses Redis."]);
+    assertEquals(await trackedGroups(), [BRANCH_GROUP]);
+  });
+
+  it("should retry promoting a group that cannot be read", async () => {
+    await workOnBranch();
+    await git(repo, "merge", "-q", "--ff-only", "spike/cache");
+    await git(repo, "branch", "-q", "-d", "spike/cache");
+    const unreadable: MemoryBackend = {
+      addEpisode: (params) => client.addEpisode(params),
+      searchFacts: () => Promise.resolve([]),
+      searchNodes: () => Promise.resolve([]),
+      getEpisodes: (params) =>
+        params.strict
+          ? Promise.reject(new Error("Graphiti unavailable"))
+          : Promise.resolve([]),
+      getStatus: () => Promise.resolve(false),
+      clearGroups: (groupIds) => client.clearGroups(groupIds),
+    };
+
+    await assertRejects(() =>
+      new BranchScope(unreadable, {
+        directory: repo,
+        mainGroupId: MAIN_GROUP,
+        registryPath: join(root, "branch-groups.json"),
+      }).reconcile()
+    );
+
+    assertEquals(await episodesIn(BRANCH_GROUP), ["The cache uses Redis."]);
+    assertEquals(await trackedGroups(), [BRANCH_GROUP]);
+    await scope.reconcile();
+    assertEquals(await episodesIn(MAIN_GROUP), ["The cache uses Redis."]);
+  });
+
+  it("should copy a group once when it cannot be cleared", async () => {
+    await workOnBranch();
+    await git(repo, "merge", "-q", "--ff-only", "spike/cache");
+    await git(repo, "branch", "-q", "-d", "spike/cache");
+    const unclearable: MemoryBackend = {
+      addEpisode: (params) => client.addEpisode(params),
+      searchFacts: () => Promise.resolve([]),
+      searchNodes: () => Promise.resolve([]),
+      getEpisodes: (params) => client.getEpisodes(params),
+      getStatus: () => Promise.resolve(true),
+      clearGroups: () =>
+        Promise.reject(new Error("clear_graph is not supported")),
+    };
+    const unclearableScope = new BranchScope(unclearable, {
+      directory: repo,
+      mainGroupId: MAIN_GROUP,
+      registryPath: join(root, "branch-groups.json"),
+    });
+
+    await unclearableScope.reconcile();
+    await unclearableScope.reconcile();
+
+    assertEquals(await episodesIn(MAIN_GROUP), ["The cache uses Redis."]);
+    assertEquals(await trackedGroups(), []);
+  });
+
+  it("should promote once when processes reconcile together", async () => {
+    await workOnBranch();
+    await git(repo, "merge", "-q", "--ff-only", "spike/cache");
+    await git(repo, "branch", "-q", "-d", "spike/cache");
+    const other = new BranchScope(client, {
+      directory: repo,
+      mainGroupId: MAIN_GROUP,
+      registryPath: join(root, "branch-groups.json"),
+    });
+
+    await Promise.all([scope.reconcile(), other.reconcile()]);
+
+    assertEquals(await episodesIn(MAIN_GROUP), ["The cache uses Redis."]);
+  });
+
+  it("should not promote more episodes than it can copy", async () => {
+    await workOnBranch();
+    for (let i = 0; i < 1_000; i++) {
+      await client.addEpisode({
+        name: "Note",
+        episodeBody: `Note ${i}`,
+        groupId: BRANCH_GROUP,
+      });
+    }
+    await git(repo, "merge", "-q", "--ff-only", "spike/cache");
+    await git(repo, "branch", "-q", "-d", "spike/cache");
+
+    await scope.reconcile();
+
+    assertEquals(await episodesIn(MAIN_GROUP), []);
+    assertEquals(await trackedGroups(), [BRANCH_GROUP]);
+  });
+});
@@ -0,0 +1,235 @@
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import { dirname, join } from "node:path";
+import process from "node:process";
+import { getDataDir, makeBranchGroupId } from "../utils.ts";
+import type { MemoryBackend } from "./backend.ts";
+import {
+  getBranchCommits,
+  getCommit,
+  getCurrentBranch,
+  getDefaultBranch,
+  getRepositoryDir,
+  isAncestor,
+} from "./git.ts";
+import { withFileLock } from "./file-lock.ts";
+import { copyGroupEpisodes } from "./group-migration.ts";
+import { logger } from "./logger.ts";
+
+/** A branch group the plugin has written to. */
+interface BranchRecord {
+  mainGroupId: string;
+  /** Git directory of the repository the branch belongs to. */
+  repository?: string;
+  branch: string;
+  /** Last known tip of the branch, used once the branch is deleted. */
+  head?: string;
+}
+
+/** Where a session writes project memory and which groups it searches. */
+export interface BranchGroups {
+  groupId: string;
+  projectGroupIds: string[];
+}
+
+/** Options for {@link BranchScope}. */
+export interface BranchScopeOptions {
+  /** Repository the sessions work in. */
+  directory: string;
+  /** Project group that branch groups are promoted into. */
+  mainGroupId: string;
+  /** File recording the branch groups in use. */
+  registryPath?: string;
+}
+
+/** Most episodes copied from a branch group when it is promoted. */
+const MAX_PROMOTED_EPISODES = 1_000;
+
+/** Default location of the branch group registry. */
+export const getDefaultBranchRegistryPath = (): string =>
+  join(getDataDir(), "branch-groups.json");
+
+/**
+ * Keep the memories of a git branch in a group of its own, searched
+ * together with the main project group, so exploratory work does not
+ * pollute project memory.
+ *
+ * Branch groups are reconciled once their branch no longer exists, locally
+ * or on a remote: when its last known tip was merged into the default
+ * branch, its episodes are re-ingested into the main group and the branch
+ * group is cleared (promoted). Groups of branches deleted unmerged keep
+ * their episodes but are no longer tracked, so no session searches them.
+ */
+export class BranchScope {
+  private readonly directory: string;
+  private readonly mainGroupId: string;
+  private readonly registryPath: string;
+  private lock: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    private readonly client: MemoryBackend,
+    options: BranchScopeOptions,
+  ) {
+    this.directory = options.directory;
+    this.mainGroupId = options.mainGroupId;
+    this.registryPath = options.registryPath ??
+      getDefaultBranchRegistryPath();
+  }
+
+  /**
+   * Resolve the groups of a session starting now. Sessions on the default
+   * branch, on a detached HEAD or outside git use the main group alone.
+   */
+  async resolve(): Promise<BranchGroups> {
+    const [branch, defaultBranch] = await Promise.all([
+      getCurrentBranch(this.directory),
+      getDefaultBranch(this.directory),
+    ]);
+    if (!branch || !defaultBranch || branch === defaultBranch) {
+      return { groupId: this.mainGroupId, projectGroupIds: [this.mainGroupId] };
+    }
+
+    const groupId = makeBranchGroupId(this.mainGroupId, branch);
+    const [head, repository] = await Promise.all([
+      getCommit(this.directory),
+      getRepositoryDir(this.directory),
+    ]);
+    try {
+      await this.update((records) => {
+        records[groupId] = {
+          mainGroupId: this.mainGroupId,
+          repository,
+          branch,
+          head,
+        };
+      });
+    } catch (err) {
+      logger.warn("Failed to record branch memory group:", err);
+    }
+    logger.info("Using branch memory group:", groupId);
+    return { groupId, projectGroupIds: [groupId, this.mainGroupId] };
+  }
+
+  /**
+   * Promote or stop tracking the groups this repository wrote to whose
+   * branch no longer exists. Processes starting together take turns, so a
+   * group is promoted once.
+   */
+  reconcile(): Promise<void> {
+    return withFileLock(
+      `${this.registryPath}.reconcile.lock`,
+      () => this.reconcileLocked(),
+    );
+  }
+
+  private async reconcileLocked(): Promise<void> {
+    const [defaultBranch, repository] = await Promise.all([
+      getDefaultBranch(this.directory),
+      getRepositoryDir(this.directory),
+    ]);
+    if (!defaultBranch || !repository) return;
+    const records = await this.read();
+    for (const [groupId, record] of Object.entries(records)) {
+      if (
+        record.mainGroupId !== this.mainGroupId ||
+        record.repository !== repository
+      ) continue;
+      const tips = await getBranchCommits(this.directory, record.branch);
+      // Git failing says nothing about the branch.
+      if (!tips) continue;
+      if (tips.length > 0) {
+        if (tips[0] !== record.head) {
+          await this.update((current) => {
+            if (current[groupId]) current[groupId].head = tips[0];
+          });
+        }
+        continue;
+      }
+      if (record.head && await this.isMerged(record.head, defaultBranch)) {
+        await this.promote(groupId);
+      } else {
+        await this.untrack(groupId);
+        logger.info(
+          "Kept the memory group of a branch deleted unmerged:",
+          groupId,
+        );
+      }
+    }
+  }
+
+  /**
+   * Copy a branch group's episodes into the main group and clear it. Groups
+   * that cannot be read, or hold more episodes than are promoted, are left
+   * as they are and retried on the next start. Once copied, a group is no
+   * longer tracked even if it cannot be cleared, so it is copied only once.
+   */
+  private async promote(groupId: string): Promise<void> {
+    // Strict reads throw rather than pass off a failure as an empty group.
+    const episodes = await this.client.getEpisodes({
+      groupId,
+      lastN: MAX_PROMOTED_EPISODES + 1,
+      strict: true,
+    });
+    if (episodes.length > MAX_PROMOTED_EPISODES) {
+      logger.warn(
+        `Not promoting branch memory group ${groupId}: it holds more than ` +
+          `${MAX_PROMOTED_EPISODES} episodes`,
+      );
+      return;
+    }
+    await copyGroupEpisodes(this.client, {
+      from: groupId,
+      to: this.mainGroupId,
+      lastN: MAX_PROMOTED_EPISODES,
+    });
+    await this.untrack(groupId);
+    try {
+      await this.client.clearGroups?.([groupId]);
+    } catch (err) {
+      logger.warn(`Promoted ${groupId} but could not clear it:`, err);
+      return;
+    }
+    logger.info("Promoted branch memory group:", groupId);
+  }
+
+  private untrack(groupId: string): Promise<void> {
+    return this.update((records) => {
+      delete records[groupId];
+    });
+  }
+
+  private async isMerged(commit: string, defaultBranch: string) {
+    for (const revision of [defaultBranch, `origin/${defaultBranch}`]) {
+      if (await isAncestor(this.directory, commit, revision)) return true;
+    }
+    return false;
+  }
+
+  private async read(): Promise<Record<string, BranchRecord>> {
+    try {
+      return JSON.parse(await readFile(this.registryPath, "utf8"));
+    } catch (err) {
+      if ((err as { code?: string }).code !== "ENOENT") {
+        logger.warn("Ignoring unreadable branch group registry:", err);
+      }
+      return {};
+    }
+  }
+
+  /** Apply a change to the registry, serialized across processes. */
+  private update(
+    change: (records: Record<string, BranchRecord>) => void,
+  ): Promise<void> {
+    const locked = () =>
+      withFileLock(`${this.registryPath}.lock`, async () => {
+        const records = await this.read();
+        change(records);
+        await mkdir(dirname(this.registryPath), { recursive: true });
+        const tempPath = `${this.registryPath}.${process.pid}.tmp`;
+        await writeFile(tempPath, JSON.stringify(records, null, 2), "utf8");
+        await rename(tempPath, this.registryPath);
+      });
+    const run = this.lock.then(locked, locked);
+    this.lock = run.catch(() => undefined);
+    return run;
+  }
+}
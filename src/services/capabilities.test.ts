@@ -0,0 +1,202 @@
+import { assertEquals } from "jsr:@std/assert@^1.0.0";
+import { describe, it } from "jsr:@std/testing@^1.0.0/bdd";
+import {
+  bindArguments,
+  DEFAULT_BINDINGS,
+  resolveCapabilities,
+  type ToolDescriptor,
+} from "./capabilities.ts";
+
+const tool = (
+  name: string,
+  properties: string[],
+  required: string[] = [],
+): ToolDescriptor => ({
+  name,
+  inputSchema: {
+    properties: Object.fromEntries(properties.map((key) => [key, {}])),
+    required,
+  },
+});
+
+const LEGACY_TOOLS = [
+  tool("add_memory", [
+    "name",
+    "episode_body",
+    "group_id",
+    "source",
+    "source_description",
+    "uuid",
+  ], ["name", "episode_body"]),
+  tool("search_memory_facts", ["query", "group_ids", "max_facts"], ["query"]),
+  tool("search_nodes", ["query", "group_ids", "max_nodes"], ["query"]),
+  tool("get_episodes", ["group_id", "last_n"]),
+  tool("get_status", []),
+  tool("delete_episode", ["uuid"], ["uuid"]),
+  tool("delete_entity_edge", ["uuid"], ["uuid"]),
+  tool("get_entity_edge", ["uuid"], ["uuid"]),
+  tool("clear_graph", ["group_ids"]),
+];
+
+describe("capabilities", () => {
+  describe("resolveCapabilities", () => {
+    it("should match the tools the plugin was written against", () => {
+      const { bindings, issues } = resolveCapabilities(LEGACY_TOOLS);
+      assertEquals(issues, []);
+      assertEquals(bindings, {
+        ...DEFAULT_BINDINGS,
+        clearGraph: {
+          tool: "clear_graph",
+          args: { group_ids: "group_ids" },
+          listArgs: [],
+        },
+      });
+    });
+
+    it("should not bind clear_graph before discovery", () => {
+      assertEquals(DEFAULT_BINDINGS.clearGraph, undefined);
+    });
+
+    it("should map renamed tools and arguments", () => {
+      const { bindings, issues } = resolveCapabilities([
+        tool("add_episode", ["name", "content", "group_id"], [
+          "name",
+          "content",
+        ]),
+        tool("search_facts", ["query", "group_ids", "num_results"]),
+        tool("search_memory_nodes", ["query", "group_ids", "limit"]),
+        tool("get_episodes", ["group_ids", "max_episodes"]),
+        tool("get_status", []),
+      ]);
+      assertEquals(issues, []);
+      assertEquals(bindings.addEpisode, {
+        tool: "add_episode",
+        args: { name: "name", episode_body: "content", group_id: "group_id" },
+        listArgs: [],
+      });
+      assertEquals(bindings.searchFacts?.args.max_facts, "num_results");
+      assertEquals(bindings.searchNodes?.tool, "search_memory_nodes");
+      assertEquals(bindings.getEpisodes, {
+        tool: "get_episodes",
+        args: { group_id: "group_ids", last_n: "max_episodes" },
+        listArgs: ["group_ids"],
+      });
+    });
+
+    it("should report missing tools", () => {
+      const { bindings, issues } = resolveCapabilities(
+        LEGACY_TOOLS.filter((item) => item.name !== "search_nodes"),
+      );
+      assertEquals(bindings.searchNodes, undefined);
+      assertEquals(issues, [
+        "searchNodes: no tool named search_nodes or search_memory_nodes",
+      ]);
+    });
+
+    it("should report tools lacking a required argument", () => {
+      const { bindings, issues } = resolveCapabilities([
+        ...LEGACY_TOOLS.filter((item) => item.name !== "search_memory_facts"),
+        tool("search_memory_facts", ["text", "group_ids"]),
+      ]);
+      assertEquals(bindings.searchFacts, undefined);
+      assertEquals(issues, [
+        "searchFacts: search_memory_facts has no query argument",
+      ]);
+    });
+
+    it("should refuse searches that cannot be scoped to groups", () => {
+      const { bindings, issues } = resolveCapabilities([
+        ...LEGACY_TOOLS.filter((item) =>
+          !["search_nodes", "get_episodes"].includes(item.name)
+        ),
+        tool("search_nodes", ["query", "max_nodes"]),
+        tool("get_episodes", ["last_n"]),
+      ]);
+      assertEquals(bindings.searchNodes, undefined);
+      assertEquals(bindings.getEpisodes, undefined);
+      assertEquals(issues, [
+        "searchNodes: search_nodes has no group_ids argument",
+        "getEpisodes: get_episodes has no group_id or group_ids argument",
+      ]);
+    });
+
+    it("should report server-required arguments the plugin cannot supply", () => {
+      const { bindings, issues } = resolveCapabilities([
+        ...LEGACY_TOOLS.filter((item) => item.name !== "get_episodes"),
+        tool("get_episodes", ["group_id", "reference_time"], [
+          "reference_time",
+        ]),
+      ]);
+      assertEquals(bindings.getEpisodes, undefined);
+      assertEquals(issues, [
+        "getEpisodes: get_episodes requires unsupported argument(s) reference_time",
+      ]);
+    });
+
+    it("should not report missing maintenance tools", () => {
+      const { bindings, issues } = resolveCapabilities(
+        LEGACY_TOOLS.filter((item) =>
+          !["delete_episode", "clear_graph"].includes(item.name)
+        ),
+      );
+      assertEquals(issues, []);
+      assertEquals(bindings.deleteEpisode, undefined);
+      assertEquals(bindings.clearGraph, undefined);
+      assertEquals(bindings.getEntityEdge, DEFAULT_BINDINGS.getEntityEdge);
+    });
+
+    it("should refuse clear_graph that cannot be scoped to groups", () => {
+      const { bindings, issues } = resolveCapabilities([
+        ...LEGACY_TOOLS.filter((item) => item.name !== "clear_graph"),
+        tool("clear_graph", []),
+      ]);
+      assertEquals(bindings.clearGraph, undefined);
+      assertEquals(issues, [
+        "clearGraph: clear_graph has no group_ids argument",
+      ]);
+    });
+
+    it("should assume canonical arguments when a tool has no schema", () => {
+      const { bindings } = resolveCapabilities([{ name: "search_nodes" }]);
+      assertEquals(bindings.searchNodes, DEFAULT_BINDINGS.searchNodes);
+    });
+
+    it("should only send episode timestamps to servers that take them", () => {
+      const legacy = resolveCapabilities([{ name: "add_memory" }]);
+      const current = resolveCapabilities([
+        tool("add_memory", ["name", "episode_body", "reference_time"]),
+      ]);
+      assertEquals(legacy.bindings.addEpisode?.args.reference_time, undefined);
+      assertEquals(
+        current.bindings.addEpisode?.args.reference_time,
+        "reference_time",
+      );
+    });
+  });
+
+  describe("bindArguments", () => {
+    it("should rename arguments and drop unsupported ones", () => {
+      const bound = bindArguments(
+        {
+          tool: "search_facts",
+          args: { query: "query", max_facts: "num_results" },
+          listArgs: [],
+        },
+        { query: "auth", group_ids: ["g1"], max_facts: 5 },
+      );
+      assertEquals(bound, { query: "auth", num_results: 5 });
+    });
+
+    it("should wrap single values for list arguments", () => {
+      const bound = bindArguments(
+        {
+          tool: "get_episodes",
+          args: { group_id: "group_ids", last_n: "max_episodes" },
+          listArgs: ["group_ids"],
+        },
+        { group_id: "g1", last_n: 10 },
+      );
+      assertEquals(bound, { group_ids: ["g1"], max_episodes: 10 });
+    });
+  });
+});
@@ -0,0 +1,256 @@
+/** Plugin operations backed by Graphiti MCP tools. */
+export type GraphitiOperation =
+  | "addEpisode"
+  | "searchFacts"
+  | "searchNodes"
+  | "getEpisodes"
+  | "getStatus"
+  | "deleteEpisode"
+  | "deleteEntityEdge"
+  | "getEntityEdge"
+  | "clearGraph";
+
+/** Minimal shape of a tool advertised by `tools/list`. */
+export interface ToolDescriptor {
+  name: string;
+  inputSchema?: {
+    properties?: Record<string, unknown>;
+    required?: string[];
+  };
+}
+
+/** How one plugin operation maps onto a concrete server tool. */
+export interface ToolBinding {
+  /** Server tool name. */
+  tool: string;
+  /** Canonical argument name to server argument name. */
+  args: Record<string, string>;
+  /** Server arguments that expect a list where the plugin passes a value. */
+  listArgs: string[];
+}
+
+/** Result of matching the server's tools against the plugin's needs. */
+export interface ToolCapabilities {
+  /** Bindings for every operation the server supports. */
+  bindings: Partial<Record<GraphitiOperation, ToolBinding>>;
+  /** Human-readable incompatibilities, empty when fully compatible. */
+  issues: string[];
+}
+
+interface ArgumentSpec {
+  /** Server argument names accepted for this argument, by preference. */
+  names: string[];
+  /** Whether the operation is useless without this argument. */
+  required?: boolean;
+  /** Plural server names that take a list instead of a single value. */
+  listNames?: string[];
+  /** Only bound when the server's schema lists it, e.g. newer arguments. */
+  advertisedOnly?: boolean;
+}
+
+interface OperationSpec {
+  /** Tool names across Graphiti MCP releases, by preference. */
+  tools: string[];
+  /** Canonical argument names (as used by the plugin) to their aliases. */
+  args: Record<string, ArgumentSpec>;
+  /** Maintenance operations whose absence is not an incompatibility. */
+  optional?: boolean;
+}
+
+const OPERATION_SPECS: Record<GraphitiOperation, OperationSpec> = {
+  addEpisode: {
+    tools: ["add_memory", "add_episode"],
+    args: {
+      name: { names: ["name"], required: true },
+      episode_body: { names: ["episode_body", "content"], required: true },
+      group_id: { names: ["group_id"] },
+      source: { names: ["source"] },
+      source_description: { names: ["source_description"] },
+      reference_time: {
+        names: ["reference_time", "reference_timestamp"],
+        advertisedOnly: true,
+      },
+    },
+  },
+  searchFacts: {
+    tools: ["search_memory_facts", "search_facts"],
+    args: {
+      query: { names: ["query"], required: true },
+      // Unscoped searches would return every project's memory.
+      group_ids: { names: ["group_ids"], required: true },
+      max_facts: { names: ["max_facts", "num_results", "limit"] },
+    },
+  },
+  searchNodes: {
+    tools: ["search_nodes", "search_memory_nodes"],
+    args: {
+      query: { names: ["query"], required: true },
+      // Unscoped searches would return every project's memory.
+      group_ids: { names: ["group_ids"], required: true },
+      max_nodes: { names: ["max_nodes", "num_results", "limit"] },
+    },
+  },
+  getEpisodes: {
+    tools: ["get_episodes"],
+    args: {
+      group_id: {
+        names: ["group_id", "group_ids"],
+        required: true,
+        listNames: ["group_ids"],
+      },
+      last_n: { names: ["last_n", "max_episodes"] },
+    },
+  },
+  getStatus: {
+    tools: ["get_status"],
+    args: {},
+  },
+  deleteEpisode: {
+    tools: ["delete_episode"],
+    args: {
+      uuid: { names: ["uuid", "episode_uuid"], required: true },
+    },
+    optional: true,
+  },
+  deleteEntityEdge: {
+    tools: ["delete_entity_edge"],
+    args: {
+      uuid: { names: ["uuid", "edge_uuid"], required: true },
+    },
+    optional: true,
+  },
+  getEntityEdge: {
+    tools: ["get_entity_edge"],
+    args: {
+      uuid: { names: ["uuid", "edge_uuid"], required: true },
+    },
+    optional: true,
+  },
+  clearGraph: {
+    tools: ["clear_graph"],
+    args: {
+      // Older servers clear every group when called without group IDs, so
+      // refuse to bind unless the tool can be scoped.
+      group_ids: { names: ["group_ids"], required: true },
+    },
+    optional: true,
+  },
+};
+
+const toDefaultBinding = (spec: OperationSpec): ToolBinding => ({
+  tool: spec.tools[0],
+  args: Object.fromEntries(
+    Object.entries(spec.args)
+      .filter(([, argSpec]) => !argSpec.advertisedOnly)
+      .map(([name]) => [name, name]),
+  ),
+  listArgs: [],
+});
+
+/**
+ * Bindings used before discovery or when the server cannot list its tools:
+ * the tool and argument names of the Graphiti MCP releases this plugin was
+ * originally written against. `clear_graph` is left unbound until discovery
+ * confirms it can be scoped to groups.
+ */
+export const DEFAULT_BINDINGS: ToolCapabilities["bindings"] = {
+  addEpisode: toDefaultBinding(OPERATION_SPECS.addEpisode),
+  searchFacts: toDefaultBinding(OPERATION_SPECS.searchFacts),
+  searchNodes: toDefaultBinding(OPERATION_SPECS.searchNodes),
+  getEpisodes: toDefaultBinding(OPERATION_SPECS.getEpisodes),
+  getStatus: toDefaultBinding(OPERATION_SPECS.getStatus),
+  deleteEpisode: toDefaultBinding(OPERATION_SPECS.deleteEpisode),
+  deleteEntityEdge: toDefaultBinding(OPERATION_SPECS.deleteEntityEdge),
+  getEntityEdge: toDefaultBinding(OPERATION_SPECS.getEntityEdge),
+};
+
+/**
+ * Match the tools advertised by a Graphiti MCP server to plugin operations,
+ * collecting every incompatibility found along the way.
+ */
+export function resolveCapabilities(tools: ToolDescriptor[]): ToolCapabilities {
+  const byName = new Map(tools.map((tool) => [tool.name, tool]));
+  const bindings: ToolCapabilities["bindings"] = {};
+  const issues: string[] = [];
+
+  for (
+    const [operation, spec] of Object.entries(OPERATION_SPECS) as Array<
+      [GraphitiOperation, OperationSpec]
+    >
+  ) {
+    const tool = spec.tools
+      .map((name) => byName.get(name))
+      .find((candidate) => candidate !== undefined);
+    if (!tool) {
+      if (spec.optional) continue;
+      issues.push(
+        `${operation}: no tool named ${spec.tools.join(" or ")}`,
+      );
+      continue;
+    }
+
+    const properties = tool.inputSchema?.properties;
+    const accepted = properties ? new Set(Object.keys(properties)) : null;
+    const args: Record<string, string> = {};
+    const listArgs: string[] = [];
+    let usable = true;
+    for (const [canonical, argSpec] of Object.entries(spec.args)) {
+      // Without a schema, assume the canonical names are accepted.
+      const serverName = accepted
+        ? argSpec.names.find((name) => accepted.has(name))
+        : argSpec.advertisedOnly
+        ? undefined
+        : canonical;
+      if (!serverName) {
+        if (argSpec.required) {
+          issues.push(
+            `${operation}: ${tool.name} has no ${
+              argSpec.names.join(" or ")
+            } argument`,
+          );
+          usable = false;
+        }
+        continue;
+      }
+      args[canonical] = serverName;
+      if (argSpec.listNames?.includes(serverName)) listArgs.push(serverName);
+    }
+
+    const mapped = new Set(Object.values(args));
+    const unsupported = (tool.inputSchema?.required ?? []).filter((name) =>
+      !mapped.has(name)
+    );
+    if (unsupported.length > 0) {
+      issues.push(
+        `${operation}: ${tool.name} requires unsupported argument(s) ${
+          unsupported.join(", ")
+        }`,
+      );
+      usable = false;
+    }
+
+    if (usable) bindings[operation] = { tool: tool.name, args, listArgs };
+  }
+
+  return { bindings, issues };
+}
+
+/**
+ * Rename canonical arguments to the server's argument names, dropping
+ * arguments the server does not accept.
+ */
+export function bindArguments(
+  binding: ToolBinding,
+  args: Record<string, unknown>,
+): Record<string, unknown> {
+  const bound: Record<string, unknown> = {};
+  for (const [canonical, value] of Object.entries(args)) {
+    const serverName = binding.args[canonical];
+    if (!serverName) continue;
+    bound[serverName] = binding.listArgs.includes(serverName) &&
+        value !== undefined && value !== null && !Array.isArray(value)
+      ? [value]
+      : value;
+  }
+  return bound;
+}
@@ -0,0 +1,100 @@
+import { assertEquals, assertStrictEquals } from "jsr:@std/assert@^1.0.0";
+import { describe, it } from "jsr:@std/testing@^1.0.0/bdd";
+import { CircuitBreaker } from "./circuit-breaker.ts";
+
+const createBreaker = (random = 0.5) => {
+  const clock = { now: 0 };
+  const breaker = new CircuitBreaker({
+    failureThreshold: 3,
+    baseDelayMs: 1_000,
+    maxDelayMs: 8_000,
+    jitter: 0.2,
+    now: () => clock.now,
+    random: () => random,
+  });
+  return { breaker, clock };
+};
+
+describe("circuit-breaker", () => {
+  describe("CircuitBreaker", () => {
+    it("should start healthy and allow requests", () => {
+      const { breaker } = createBreaker();
+      assertStrictEquals(breaker.state, "healthy");
+      assertStrictEquals(breaker.canRequest(), true);
+      assertStrictEquals(breaker.retryInMs, 0);
+    });
+
+    it("should degrade before reaching the failure threshold", () => {
+      const { breaker } = createBreaker();
+      breaker.recordFailure();
+      breaker.recordFailure();
+      assertStrictEquals(breaker.state, "degraded");
+      assertStrictEquals(breaker.canRequest(), true);
+    });
+
+    it("should open after consecutive failures and fail fast", () => {
+      const { breaker } = createBreaker();
+      breaker.recordFailure();
+      breaker.recordFailure();
+      breaker.recordFailure();
+      assertStrictEquals(breaker.state, "open");
+      assertStrictEquals(breaker.canRequest(), false);
+      assertStrictEquals(breaker.retryInMs, 1_000);
+    });
+
+    it("should allow a single probe once the delay has elapsed", () => {
+      const { breaker, clock } = createBreaker();
+      for (let i = 0; i < 3; i++) breaker.recordFailure();
+
+      clock.now = 1_000;
+      assertStrictEquals(breaker.canRequest(), true);
+      assertStrictEquals(breaker.state, "half-open");
+      assertStrictEquals(breaker.canRequest(), false);
+    });
+
+    it("should close the circuit when the probe succeeds", () => {
+      const { breaker, clock } = createBreaker();
+      for (let i = 0; i < 3; i++) breaker.recordFailure();
+      clock.now = 1_000;
+      breaker.canRequest();
+
+      breaker.recordSuccess();
+      assertStrictEquals(breaker.state, "healthy");
+      assertStrictEquals(breaker.canRequest(), true);
+    });
+
+    it("should back off exponentially up to the maximum delay", () => {
+      const { breaker, clock } = createBreaker();
+      for (let i = 0; i < 3; i++) breaker.recordFailure();
+
+      const delays: number[] = [];
+      for (let i = 0; i < 5; i++) {
+        delays.push(breaker.retryInMs);
+        clock.now += breaker.retryInMs;
+        breaker.canRequest();
+        breaker.recordFailure();
+      }
+      assertEquals(delays, [1_000, 2_000, 4_000, 8_000, 8_000]);
+    });
+
+    it("should apply jitter around the backoff delay", () => {
+      const low = createBreaker(0);
+      const high = createBreaker(1);
+      for (let i = 0; i < 3; i++) {
+        low.breaker.recordFailure();
+        high.breaker.recordFailure();
+      }
+      assertStrictEquals(low.breaker.retryInMs, 800);
+      assertStrictEquals(high.breaker.retryInMs, 1_200);
+    });
+
+    it("should reset the failure count after a success", () => {
+      const { breaker } = createBreaker();
+      breaker.recordFailure();
+      breaker.recordFailure();
+      breaker.recordSuccess();
+      breaker.recordFailure();
+      assertStrictEquals(breaker.state, "degraded");
+    });
+  });
+});
@@ -0,0 +1,127 @@
+import { logger } from "./logger.ts";
+
+/**
+ * Connection health as seen by the circuit breaker.
+ *
+ * - `healthy`: requests flow normally.
+ * - `degraded`: recent failures, requests still flow.
+ * - `open`: requests fail fast until the backoff delay elapses.
+ * - `half-open`: a single probe request is in flight.
+ */
+export type CircuitState = "healthy" | "degraded" | "open" | "half-open";
+
+/** Tuning options for {@link CircuitBreaker}. */
+export interface CircuitBreakerOptions {
+  /** Consecutive failures after which the circuit opens. */
+  failureThreshold?: number;
+  /** Backoff delay after the circuit opens for the first time. */
+  baseDelayMs?: number;
+  /** Upper bound for the backoff delay. */
+  maxDelayMs?: number;
+  /** Fraction (0–1) of the delay randomized to spread out retries. */
+  jitter?: number;
+  /** Clock source, overridable for testing. */
+  now?: () => number;
+  /** Random source, overridable for testing. */
+  random?: () => number;
+}
+
+/**
+ * Circuit breaker with exponential backoff and jitter, used to fail fast
+ * while the Graphiti server is down and probe for recovery periodically.
+ */
+export class CircuitBreaker {
+  private currentState: CircuitState = "healthy";
+  private failures = 0;
+  private consecutiveOpens = 0;
+  private retryAt = 0;
+  private readonly failureThreshold: number;
+  private readonly baseDelayMs: number;
+  private readonly maxDelayMs: number;
+  private readonly jitter: number;
+  private readonly now: () => number;
+  private readonly random: () => number;
+
+  constructor(options: CircuitBreakerOptions = {}) {
+    this.failureThreshold = options.failureThreshold ?? 3;
+    this.baseDelayMs = options.baseDelayMs ?? 1_000;
+    this.maxDelayMs = options.maxDelayMs ?? 60_000;
+    this.jitter = options.jitter ?? 0.2;
+    this.now = options.now ?? Date.now;
+    this.random = options.random ?? Math.random;
+  }
+
+  /** Current circuit state. */
+  get state(): CircuitState {
+    return this.currentState;
+  }
+
+  /** Milliseconds until the next probe is allowed; zero when not open. */
+  get retryInMs(): number {
+    if (this.currentState !== "open") return 0;
+    return Math.max(this.retryAt - this.now(), 0);
+  }
+
+  /**
+   * Decide whether a request may proceed. Once the backoff delay has
+   * elapsed, an open circuit lets exactly one probe request through.
+   */
+  canRequest(): boolean {
+    switch (this.currentState) {
+      case "healthy":
+      case "degraded":
+        return true;
+      case "half-open":
+        return false;
+      case "open":
+        if (this.now() < this.retryAt) return false;
+        this.transition("half-open");
+        return true;
+    }
+  }
+
+  /** Record a successful request, closing the circuit. */
+  recordSuccess(): void {
+    this.failures = 0;
+    this.consecutiveOpens = 0;
+    this.transition("healthy");
+  }
+
+  /** Record a failed request, opening the circuit when warranted. */
+  recordFailure(): void {
+    this.failures += 1;
+    if (
+      this.currentState === "half-open" ||
+      this.failures >= this.failureThreshold
+    ) {
+      this.open();
+      return;
+    }
+    this.transition("degraded");
+  }
+
+  private open(): void {
+    this.consecutiveOpens += 1;
+    const exponential = this.baseDelayMs * 2 ** (this.consecutiveOpens - 1);
+    const delay = Math.min(exponential, this.maxDelayMs);
+    const spread = delay * this.jitter;
+    const jittered = delay - spread + this.random() * spread * 2;
+    this.retryAt = this.now() + Math.max(Math.round(jittered), 0);
+    this.transition("open");
+  }
+
+  private transition(next: CircuitState): void {
+    if (this.currentState === next) return;
+    const previous = this.currentState;
+    this.currentState = next;
+    if (next === "open") {
+      logger.warn("Graphiti circuit open", {
+        previous,
+        failures: this.failures,
+        retryInMs: this.retryInMs,
+      });
+      return;
+    }
+    logger.info("Graphiti circuit state changed", { previous, next });
+  }
+}
@@ -1,6 +1,12 @@
-import { assertEquals, assertStrictEquals } from "jsr:@std/assert@^1.0.0";
+import {
+  assertEquals,
+  assertRejects,
+  assertStrictEquals,
+} from "jsr:@std/assert@^1.0.0";
 import { describe, it } from "jsr:@std/testing@^1.0.0/bdd";
+import { FakeGraphitiServer } from "../testing/fake-graphiti-server.ts";
 import { GraphitiClient } from "./client.ts";
+import { parseFacts, parseNodes } from "./validation.ts";
 
 describe("client", () => {
   describe("parseToolResult", () => {
@@ -37,6 +43,15 @@ describe("client", () => {
       assertEquals(parsed, [{ uuid: "1" }, { uuid: "2" }]);
     });
 
+    it("should turn tool errors into Graphiti's error payload", () => {
+      const result = {
+        content: [{ type: "text", text: "add_memory failed" }],
+        isError: true,
+      };
+      const parsed = client.parseToolResult(result);
+      assertEquals(parsed, { error: "add_memory failed" });
+    });
+
     it("should return plain text when not valid JSON", () => {
       const result = {
         content: [{ type: "text", text: "Hello, world!" }],
@@ -179,7 +194,7 @@ describe("client", () => {
 
   describe("response parsing integration", () => {
     it("should correctly parse object responses from searchFacts", () => {
-      // Testing the logic that searchFacts uses to handle both array and object responses
+      // searchFacts accepts both array and object responses
       const testCases = [
         {
           description: "direct array response",
@@ -214,23 +229,12 @@ describe("client", () => {
       ];
 
       for (const { description, input, expected } of testCases) {
-        // Simulate the logic in searchFacts
-        let result: unknown[] = [];
-        if (Array.isArray(input)) {
-          result = input as unknown[];
-        } else if (
-          input &&
-          typeof input === "object" &&
-          Array.isArray((input as { facts?: unknown[] }).facts)
-        ) {
-          result = (input as { facts: unknown[] }).facts;
-        }
-        assertEquals(result, expected, description);
+        assertEquals(parseFacts(input), expected, description);
       }
     });
 
     it("should correctly parse object responses from searchNodes", () => {
-      // Testing the logic that searchNodes uses to handle both array and object responses
+      // searchNodes accepts both array and object responses
       const testCases = [
         {
           description: "direct array response",
@@ -250,18 +254,144 @@ describe("client", () => {
       ];
 
       for (const { description, input, expected } of testCases) {
-        // Simulate the logic in searchNodes
-        let result: unknown[] = [];
-        if (Array.isArray(input)) {
-          result = input as unknown[];
-        } else if (
-          input &&
-          typeof input === "object" &&
-          Array.isArray((input as { nodes?: unknown[] }).nodes)
-        ) {
-          result = (input as { nodes: unknown[] }).nodes;
-        }
-        assertEquals(result, expected, description);
+        assertEquals(parseNodes(input), expected, description);
+      }
+    });
+  });
+
+  describe("circuit breaker", () => {
+    it("should fail fast once the server is unreachable", async () => {
+      const client = new GraphitiClient("http://127.0.0.1:1/mcp", {
+        circuitBreaker: { failureThreshold: 2, baseDelayMs: 60_000 },
+      });
+
+      assertEquals(await client.searchFacts({ query: "test" }), []);
+      assertStrictEquals(client.health, "degraded");
+      assertEquals(await client.searchFacts({ query: "test" }), []);
+      assertStrictEquals(client.health, "open");
+
+      assertStrictEquals(await client.connect(), false);
+      assertStrictEquals(await client.getStatus(), false);
+      assertStrictEquals(client.health, "open");
+    });
+
+    it("should not count caller cancellation as a server failure", async () => {
+      const client = new GraphitiClient("http://127.0.0.1:1/mcp", {
+        circuitBreaker: { failureThreshold: 1 },
+      });
+      const controller = new AbortController();
+      controller.abort();
+
+      assertEquals(
+        await client.searchFacts({ query: "test", signal: controller.signal }),
+        [],
+      );
+      assertStrictEquals(client.health, "healthy");
+    });
+  });
+
+  describe("maintenance operations", () => {
+    it("should refuse to clear the graph without group IDs", async () => {
+      const client = new GraphitiClient("http://127.0.0.1:1/mcp");
+      await assertRejects(
+        () => client.clearGraph([]),
+        Error,
+        "at least one group ID",
+      );
+      assertStrictEquals(client.health, "healthy");
+    });
+
+    it("should surface connection failures to the caller", async () => {
+      const client = new GraphitiClient("http://127.0.0.1:1/mcp");
+      await assertRejects(() => client.deleteEpisode("e1"));
+      await assertRejects(() => client.getEntityEdge("f1"));
+    });
+  });
+
+  describe("against a fake Graphiti server", () => {
+    const connect = (server: FakeGraphitiServer) =>
+      new GraphitiClient("", {
+        transportFactory: () => server.createTransport(),
+      });
+
+    it("should round-trip episodes and maintenance operations", async () => {
+      const server = new FakeGraphitiServer();
+      server.addFact("g1", { uuid: "f1", fact: "Uses Deno" });
+      const client = connect(server);
+      try {
+        await client.addEpisode({
+          name: "Note",
+          episodeBody: "Body",
+          groupId: "g1",
+        });
+        const [episode] = await client.getEpisodes({ groupId: "g1" });
+        assertEquals(episode.content, "Body");
+
+        assertEquals(await client.getEntityEdge("f1"), {
+          uuid: "f1",
+          fact: "Uses Deno",
+        });
+        await client.deleteEntityEdge("f1");
+        await assertRejects(
+          () => client.getEntityEdge("f1"),
+          Error,
+          "not found",
+        );
+
+        await client.deleteEpisode(episode.uuid);
+        assertEquals(server.episodes, []);
+        await client.clearGraph(["g1"]);
+        assertEquals(server.callsTo("clear_graph")[0].args, {
+          group_ids: ["g1"],
+        });
+      } finally {
+        await client.disconnect();
+        await server.close();
+      }
+    });
+
+    it("should reconnect after the server drops the connection", async () => {
+      const server = new FakeGraphitiServer();
+      server.addFact("g1", { uuid: "f1", fact: "Uses Deno" });
+      server.fail("search_memory_facts", "disconnect", 1);
+      const client = connect(server);
+      try {
+        assertEquals(await client.searchFacts({ query: "deno" }), []);
+        assertStrictEquals(client.health, "degraded");
+        assertEquals(
+          (await client.searchFacts({ query: "deno" })).map((f) => f.uuid),
+          ["f1"],
+        );
+        assertStrictEquals(client.health, "healthy");
+        assertStrictEquals(server.connections, 2);
+      } finally {
+        await client.disconnect();
+        await server.close();
+      }
+    });
+
+    it("should tell whether episodes keep their reference time", async () => {
+      const server = new FakeGraphitiServer();
+      const client = connect(server);
+      try {
+        await client.connect();
+        assertStrictEquals(client.keepsReferenceTime, false);
+      } finally {
+        await client.disconnect();
+        await server.close();
+      }
+    });
+
+    it("should not count application errors as server failures", async () => {
+      const server = new FakeGraphitiServer();
+      server.fail("search_memory_facts", "internal-error");
+      const client = connect(server);
+      try {
+        assertEquals(await client.searchFacts({ query: "deno" }), []);
+        assertStrictEquals(client.health, "healthy");
+      } finally {
+        await client.disconnect();
+        await server.close();
       }
     });
   });
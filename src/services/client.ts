@@ -1,112 +1,357 @@
 import { Client } from "@modelcontextprotocol/sdk/client/index.js";
-import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import type { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
 import manifest from "../../deno.json" with { type: "json" };
 import type {
+  GraphitiAuthConfig,
   GraphitiEpisode,
+  GraphitiEpisodeInput,
   GraphitiFact,
-  GraphitiFactsResponse,
   GraphitiNode,
-  GraphitiNodesResponse,
+  GraphitiStdioConfig,
+  GraphitiTimeouts,
+  GraphitiTlsConfig,
+  GraphitiTransport,
 } from "../types/index.ts";
+import type {
+  GetEpisodesParams,
+  RemoteMemoryBackend,
+  SearchFactsParams,
+  SearchNodesParams,
+} from "./backend.ts";
+import {
+  bindArguments,
+  DEFAULT_BINDINGS,
+  type GraphitiOperation,
+  resolveCapabilities,
+  type ToolBinding,
+} from "./capabilities.ts";
+import {
+  CircuitBreaker,
+  type CircuitBreakerOptions,
+  type CircuitState,
+} from "./circuit-breaker.ts";
+import type { EpisodeQueue } from "./episode-queue.ts";
 import { logger } from "./logger.ts";
+import {
+  createTransport,
+  describeTransport,
+  type TransportConfig,
+} from "./transport.ts";
+import {
+  parseEpisodes,
+  parseFact,
+  parseFacts,
+  parseNodes,
+} from "./validation.ts";
+
+/** Optional collaborators for {@link GraphitiClient}. */
+export interface GraphitiClientOptions {
+  /** Durable queue that episodes are written to before delivery. */
+  queue?: EpisodeQueue;
+  /** Circuit breaker tuning for failing fast while the server is down. */
+  circuitBreaker?: CircuitBreakerOptions;
+  /** Request timeouts per operation class, in milliseconds. */
+  timeouts?: Partial<GraphitiTimeouts>;
+  /** MCP transport used to reach the server; defaults to `http`. */
+  transport?: GraphitiTransport;
+  /** Server process to spawn for the `stdio` transport. */
+  stdio?: GraphitiStdioConfig;
+  /** Static headers sent with every HTTP request. */
+  headers?: Record<string, string>;
+  /** Bearer token source for HTTP requests. */
+  auth?: GraphitiAuthConfig;
+  /** TLS settings for HTTP requests. */
+  tls?: GraphitiTlsConfig;
+  /**
+   * Build the MCP transport for each connection, replacing the configured
+   * one; used to run the client against an in-process server.
+   */
+  transportFactory?: () => Transport;
+}
+
+/** Options for a single Graphiti tool call. */
+interface CallOptions {
+  /** Request deadline in milliseconds. */
+  timeout: number;
+  /** Caller-provided cancellation signal. */
+  signal?: AbortSignal;
+}
+
+const DEFAULT_TIMEOUTS: GraphitiTimeouts = {
+  search: 5_000,
+  ingest: 30_000,
+  status: 5_000,
+};
+
+/** JSON-RPC errors that prove the server is up and answering requests. */
+const APPLICATION_ERROR_CODES = new Set<number>([
+  ErrorCode.InvalidRequest,
+  ErrorCode.MethodNotFound,
+  ErrorCode.InvalidParams,
+  ErrorCode.InternalError,
+]);
+
+/** JSON-RPC errors that sending the same request again cannot overcome. */
+const REJECTION_ERROR_CODES = new Set<number>([
+  ErrorCode.InvalidRequest,
+  ErrorCode.MethodNotFound,
+  ErrorCode.InvalidParams,
+]);
 
 /**
  * Graphiti MCP client wrapper for connecting, querying,
  * and persisting episodes with basic reconnection handling.
  */
-export class GraphitiClient {
+export class GraphitiClient implements RemoteMemoryBackend {
   private client: Client;
-  private transport: StreamableHTTPClientTransport;
   private connected = false;
-  private endpoint: string;
+  private closed = false;
+  private target: TransportConfig;
+  private transportFactory: () => Transport;
+  private queue?: EpisodeQueue;
+  private draining: Promise<void> | null = null;
+  private breaker: CircuitBreaker;
+  private timeouts: GraphitiTimeouts;
+  private bindings: Partial<Record<GraphitiOperation, ToolBinding>> =
+    DEFAULT_BINDINGS;
 
   /**
-   * Create a Graphiti client bound to the given MCP endpoint URL.
+   * Create a Graphiti client bound to the given MCP endpoint URL, or to a
+   * locally spawned server when the `stdio` transport is selected.
    */
-  constructor(endpoint: string) {
-    this.endpoint = endpoint;
+  constructor(endpoint: string, options: GraphitiClientOptions = {}) {
+    this.target = {
+      type: options.transport ?? "http",
+      endpoint,
+      stdio: options.stdio,
+      headers: options.headers,
+      auth: options.auth,
+      tls: options.tls,
+    };
+    this.transportFactory = options.transportFactory ??
+      (() => createTransport(this.target));
+    this.queue = options.queue;
+    this.breaker = new CircuitBreaker(options.circuitBreaker);
+    this.timeouts = { ...DEFAULT_TIMEOUTS, ...options.timeouts };
     this.client = new Client({
       name: manifest.name,
       version: manifest.version,
     });
-    this.transport = new StreamableHTTPClientTransport(new URL(endpoint));
   }
 
-  /** Create a fresh MCP Client and Transport pair. */
-  private createClientAndTransport(): void {
-    this.client = new Client({
+  /**
+   * Create a fresh MCP Client and Transport pair, marking the client
+   * disconnected if its transport closes unexpectedly (e.g. the stdio
+   * server process exited) so the next request reconnects.
+   */
+  private createClientAndTransport(): Transport {
+    const client = new Client({
       name: manifest.name,
       version: manifest.version,
     });
-    this.transport = new StreamableHTTPClientTransport(
-      new URL(this.endpoint),
-    );
+    client.onclose = () => {
+      if (this.client !== client || !this.connected) return;
+      this.connected = false;
+      logger.warn(
+        "Graphiti MCP connection closed:",
+        describeTransport(this.target),
+      );
+    };
+    this.client = client;
+    return this.transportFactory();
+  }
+
+  /** Current connection health as tracked by the circuit breaker. */
+  get health(): CircuitState {
+    return this.breaker.state;
+  }
+
+  /** Whether the server is connected and the circuit is not open. */
+  get available(): boolean {
+    return this.connected && this.breaker.state !== "open";
+  }
+
+  /**
+   * Whether episodes keep their reference time; only servers advertising
+   * the argument receive it.
+   */
+  get keepsReferenceTime(): boolean {
+    return "reference_time" in (this.bindings.addEpisode?.args ?? {});
   }
 
   /**
    * Establish a connection to the Graphiti MCP server.
+   * Returns false immediately while the circuit is open.
+   */
+  connect(): Promise<boolean> {
+    if (this.connected) return Promise.resolve(true);
+    if (this.closed) return Promise.resolve(false);
+    if (!this.breaker.canRequest()) return Promise.resolve(false);
+    return this.openConnection();
+  }
+
+  /**
+   * Connect without consulting the circuit breaker, recording the outcome.
    * Creates a fresh Client/Transport if a previous attempt failed.
    */
-  async connect(): Promise<boolean> {
-    if (this.connected) return true;
-    // If a previous connect() tainted the Client's internal state,
-    // create fresh instances so the retry starts cleanly.
-    this.createClientAndTransport();
+  private async openConnection(): Promise<boolean> {
+    if (this.closed) return false;
     try {
-      await this.client.connect(this.transport);
+      // If a previous connect() tainted the Client's internal state,
+      // create fresh instances so the retry starts cleanly.
+      const transport = this.createClientAndTransport();
+      await this.client.connect(transport, {
+        timeout: this.timeouts.status,
+      });
+      // disconnect() ran while connecting and would miss this connection.
+      if (this.closed) {
+        await this.client.close();
+        return false;
+      }
       this.connected = true;
-      logger.info("Connected to Graphiti MCP server at", this.endpoint);
+      this.breaker.recordSuccess();
+      logger.info(
+        "Connected to Graphiti MCP server at",
+        describeTransport(this.target),
+      );
+      await this.discoverTools();
+      // Replay episodes spooled while the server was unreachable. Skipped
+      // when a drain is already running, since it reconnects through here.
+      if (!this.draining) {
+        this.flushQueue().catch((err) =>
+          logger.error("Failed to replay queued episodes:", err)
+        );
+      }
       return true;
     } catch (err) {
+      this.breaker.recordFailure();
       logger.error("Failed to connect to Graphiti:", err);
       return false;
     }
   }
 
   /**
-   * Close the underlying MCP client connection.
+   * Map the server's advertised tools onto plugin operations, reporting
+   * incompatibilities. Keeps the default bindings if the server cannot
+   * list its tools.
+   */
+  private async discoverTools(): Promise<void> {
+    try {
+      const { tools } = await this.client.listTools(undefined, {
+        timeout: this.timeouts.status,
+      });
+      const { bindings, issues } = resolveCapabilities(tools);
+      this.bindings = bindings;
+      if (issues.length > 0) {
+        logger.warn(
+          `Graphiti MCP server is incompatible with this plugin:\n- ${
+            issues.join("\n- ")
+          }`,
+        );
+      }
+      logger.debug("Resolved Graphiti tool bindings", bindings);
+    } catch (err) {
+      this.bindings = DEFAULT_BINDINGS;
+      logger.warn("Failed to list Graphiti tools; using defaults", err);
+    }
+  }
+
+  /**
+   * Close the underlying MCP client connection, after the queue drain in
+   * progress has stopped. Later calls are rejected rather than reopening
+   * the connection.
    */
   async disconnect(): Promise<void> {
+    this.closed = true;
+    await this.draining?.catch(() => {});
     if (this.connected) {
-      await this.client.close();
       this.connected = false;
+      await this.client.close();
     }
   }
 
   private async callTool(
-    name: string,
+    operation: GraphitiOperation,
     args: Record<string, unknown>,
+    options: CallOptions,
   ): Promise<unknown> {
+    options.signal?.throwIfAborted();
+    if (this.closed) throw new Error("Graphiti client is closed");
+    if (!this.breaker.canRequest()) {
+      throw new Error(
+        `Graphiti unavailable; retrying in ${this.breaker.retryInMs}ms`,
+      );
+    }
     if (!this.connected) {
-      const ok = await this.connect();
+      const ok = await this.openConnection();
       if (!ok) throw new Error("Not connected to Graphiti");
     }
 
+    const binding = this.bindings[operation];
+    if (!binding) {
+      throw new Error(`Graphiti MCP server does not support ${operation}`);
+    }
+
     // Sanitize arguments: omit task_id (and others) if null or undefined
     const sanitizedArgs = Object.fromEntries(
       Object.entries(args).filter(([_, v]) => v !== null && v !== undefined),
     );
 
     try {
-      const result = await this.client.callTool({
-        name,
-        arguments: sanitizedArgs,
-      });
+      const result = await this.callToolWithReconnect(
+        binding.tool,
+        bindArguments(binding, sanitizedArgs),
+        options,
+      );
+      this.breaker.recordSuccess();
+      return result;
+    } catch (err) {
+      // A caller giving up says nothing about the server's health.
+      if (options.signal?.aborted) throw err;
+      if (this.isServerFailure(err)) {
+        // Force a fresh connection for the next (probe) request.
+        this.connected = false;
+        this.breaker.recordFailure();
+      } else {
+        this.breaker.recordSuccess();
+      }
+      throw err;
+    }
+  }
+
+  private async callToolWithReconnect(
+    name: string,
+    args: Record<string, unknown>,
+    options: CallOptions,
+  ): Promise<unknown> {
+    const requestOptions = { timeout: options.timeout, signal: options.signal };
+    try {
+      const result = await this.client.callTool(
+        { name, arguments: args },
+        undefined,
+        requestOptions,
+      );
       return this.parseToolResult(result);
     } catch (err) {
       if (this.isSessionExpired(err)) {
         logger.warn("Graphiti session expired, reconnecting...");
         await this.reconnect();
-        const result = await this.client.callTool({
-          name,
-          arguments: sanitizedArgs,
-        });
+        const result = await this.client.callTool(
+          { name, arguments: args },
+          undefined,
+          requestOptions,
+        );
         return this.parseToolResult(result);
       }
       throw err;
     }
   }
 
+  private isServerFailure(err: unknown): boolean {
+    return !(err instanceof McpError && APPLICATION_ERROR_CODES.has(err.code));
+  }
+
   private isSessionExpired(err: unknown): boolean {
     return !!(
       err &&
@@ -117,30 +362,40 @@ export class GraphitiClient {
   }
 
   private async reconnect(): Promise<void> {
+    if (this.closed) throw new Error("Graphiti client is closed");
     this.connected = false;
     try {
       await this.client.close();
     } catch {
       // ignore close errors on stale client
     }
-    this.createClientAndTransport();
-    await this.client.connect(this.transport);
+    const transport = this.createClientAndTransport();
+    await this.client.connect(transport, {
+      timeout: this.timeouts.status,
+    });
     this.connected = true;
     logger.info("Reconnected to Graphiti MCP server");
   }
 
   /**
-   * Parse MCP tool results into JSON when possible.
+   * Parse MCP tool results into JSON when possible. Results flagged with
+   * `isError` become Graphiti's `{ error }` payload.
    * Public for testing.
    */
   parseToolResult(result: unknown): unknown {
     const typedResult = result as {
       content?: Array<{ type?: string; text?: unknown }>;
+      isError?: boolean;
     };
     const content = typedResult.content;
+    const text = Array.isArray(content)
+      ? content.find((item) => item?.type === "text")?.text
+      : undefined;
+    if (typedResult.isError) {
+      return { error: String(text ?? "the tool reported an error") };
+    }
     if (!Array.isArray(content) || content.length === 0) return result;
 
-    const text = content.find((item) => item?.type === "text")?.text;
     if (text === undefined) return result;
 
     if (typeof text !== "string") {
@@ -160,47 +415,86 @@ export class GraphitiClient {
 
   /**
    * Add an episode to Graphiti memory.
+   * When a queue is configured the episode is recorded durably first and
+   * stays queued until Graphiti accepts it, so this only throws when the
+   * queue itself cannot be written.
    */
-  async addEpisode(params: {
-    name: string;
-    episodeBody: string;
-    groupId?: string;
-    source?: "text" | "json" | "message";
-    sourceDescription?: string;
-  }): Promise<void> {
-    await this.callTool("add_memory", {
+  async addEpisode(params: GraphitiEpisodeInput): Promise<void> {
+    if (!this.queue) {
+      await this.sendEpisode(params);
+      return;
+    }
+    await this.queue.enqueue(params);
+    await this.flushQueue();
+  }
+
+  /**
+   * Deliver queued episodes to Graphiti in order, stopping at the first
+   * failure so that the remaining episodes are retried on the next flush.
+   * Episodes the server rejects as invalid are set aside instead.
+   */
+  async flushQueue(): Promise<void> {
+    if (!this.queue) return;
+    while (this.draining) await this.draining;
+    if (this.closed) return;
+    this.draining = this.drainQueue(this.queue).finally(() => {
+      this.draining = null;
+    });
+    await this.draining;
+  }
+
+  private drainQueue(queue: EpisodeQueue): Promise<void> {
+    return queue.deliverExclusively(async () => {
+      while (!this.closed) {
+        const entry = await queue.peek();
+        if (!entry) return;
+        try {
+          await this.sendEpisode(entry.episode);
+        } catch (err) {
+          if (err instanceof McpError && REJECTION_ERROR_CODES.has(err.code)) {
+            logger.error(
+              `Graphiti rejected episode "${entry.episode.name}"; moved it to`,
+              queue.rejectedPath,
+              err,
+            );
+            await queue.reject(entry, err.message);
+            continue;
+          }
+          logger.warn(
+            `Graphiti unavailable; ${await queue.size()} episode(s) queued`,
+            err,
+          );
+          return;
+        }
+        await queue.ack(entry.id);
+      }
+    });
+  }
+
+  private async sendEpisode(params: GraphitiEpisodeInput): Promise<void> {
+    const result = await this.callTool("addEpisode", {
       name: params.name,
       episode_body: params.episodeBody,
       group_id: params.groupId,
       source: params.source || "text",
       source_description: params.sourceDescription || "",
-    });
+      ...params.referenceTime && { reference_time: params.referenceTime },
+    }, { timeout: this.timeouts.ingest });
+    this.assertSucceeded("addEpisode", result);
     logger.debug("Added episode:", params.name);
   }
 
   /**
    * Search Graphiti facts matching the provided query.
    */
-  async searchFacts(params: {
-    query: string;
-    groupIds?: string[];
-    maxFacts?: number;
-  }): Promise<GraphitiFact[]> {
+  async searchFacts(params: SearchFactsParams): Promise<GraphitiFact[]> {
     try {
-      const result = await this.callTool("search_memory_facts", {
+      const result = await this.callTool("searchFacts", {
         query: params.query,
         group_ids: params.groupIds,
         max_facts: params.maxFacts || 10,
-      });
-      if (Array.isArray(result)) return result as GraphitiFact[];
-      if (
-        result &&
-        typeof result === "object" &&
-        Array.isArray((result as GraphitiFactsResponse).facts)
-      ) {
-        return (result as GraphitiFactsResponse).facts;
-      }
-      return [];
+      }, { timeout: this.timeouts.search, signal: params.signal });
+      return parseFacts(result);
     } catch (err) {
       logger.error("searchFacts error:", err);
       return [];
@@ -210,26 +504,14 @@ export class GraphitiClient {
   /**
    * Search Graphiti nodes matching the provided query.
    */
-  async searchNodes(params: {
-    query: string;
-    groupIds?: string[];
-    maxNodes?: number;
-  }): Promise<GraphitiNode[]> {
+  async searchNodes(params: SearchNodesParams): Promise<GraphitiNode[]> {
     try {
-      const result = await this.callTool("search_nodes", {
+      const result = await this.callTool("searchNodes", {
         query: params.query,
         group_ids: params.groupIds,
         max_nodes: params.maxNodes || 10,
-      });
-      if (Array.isArray(result)) return result as GraphitiNode[];
-      if (
-        result &&
-        typeof result === "object" &&
-        Array.isArray((result as GraphitiNodesResponse).nodes)
-      ) {
-        return (result as GraphitiNodesResponse).nodes;
-      }
-      return [];
+      }, { timeout: this.timeouts.search, signal: params.signal });
+      return parseNodes(result);
     } catch (err) {
       logger.error("searchNodes error:", err);
       return [];
@@ -239,36 +521,108 @@ export class GraphitiClient {
   /**
    * Retrieve recent episodes for a group.
    */
-  async getEpisodes(params: {
-    groupId?: string;
-    lastN?: number;
-  }): Promise<GraphitiEpisode[]> {
+  async getEpisodes(params: GetEpisodesParams): Promise<GraphitiEpisode[]> {
     try {
-      const result = await this.callTool("get_episodes", {
+      const result = await this.callTool("getEpisodes", {
         group_id: params.groupId,
         last_n: params.lastN,
-      });
-      if (Array.isArray(result)) return result as GraphitiEpisode[];
-      if (
-        result &&
-        typeof result === "object" &&
-        Array.isArray((result as { episodes?: unknown }).episodes)
-      ) {
-        return (result as { episodes: GraphitiEpisode[] }).episodes;
-      }
-      return [];
+      }, { timeout: this.timeouts.search, signal: params.signal });
+      return parseEpisodes(result);
     } catch (err) {
+      if (params.strict) throw err;
       logger.error("getEpisodes error:", err);
       return [];
     }
   }
 
+  /**
+   * Delete an episode by UUID. Throws when Graphiti rejects the request.
+   */
+  async deleteEpisode(uuid: string, signal?: AbortSignal): Promise<void> {
+    const result = await this.callTool("deleteEpisode", { uuid }, {
+      timeout: this.timeouts.ingest,
+      signal,
+    });
+    this.assertSucceeded("deleteEpisode", result);
+    logger.debug("Deleted episode:", uuid);
+  }
+
+  /**
+   * Delete a fact (entity edge) by UUID. Throws when Graphiti rejects the
+   * request.
+   */
+  async deleteEntityEdge(uuid: string, signal?: AbortSignal): Promise<void> {
+    const result = await this.callTool("deleteEntityEdge", { uuid }, {
+      timeout: this.timeouts.ingest,
+      signal,
+    });
+    this.assertSucceeded("deleteEntityEdge", result);
+    logger.debug("Deleted entity edge:", uuid);
+  }
+
+  /**
+   * Fetch a fact (entity edge) by UUID. Throws when Graphiti rejects the
+   * request, e.g. because the edge does not exist; returns null when the
+   * edge is returned in an unrecognized shape.
+   */
+  async getEntityEdge(
+    uuid: string,
+    signal?: AbortSignal,
+  ): Promise<GraphitiFact | null> {
+    const result = await this.callTool("getEntityEdge", { uuid }, {
+      timeout: this.timeouts.search,
+      signal,
+    });
+    this.assertSucceeded("getEntityEdge", result);
+    return parseFact(result);
+  }
+
+  /**
+   * Delete all data in the given groups. At least one group is required so
+   * that a missing argument can never wipe the whole graph.
+   */
+  async clearGraph(groupIds: string[], signal?: AbortSignal): Promise<void> {
+    if (groupIds.length === 0) {
+      throw new Error("clearGraph requires at least one group ID");
+    }
+    const result = await this.callTool("clearGraph", {
+      group_ids: groupIds,
+    }, { timeout: this.timeouts.ingest, signal });
+    this.assertSucceeded("clearGraph", result);
+    logger.info("Cleared Graphiti groups:", groupIds);
+  }
+
+  /** {@link clearGraph} under its memory backend name. */
+  clearGroups(groupIds: string[]): Promise<void> {
+    return this.clearGraph(groupIds);
+  }
+
+  /** {@link deleteEpisode} under its memory backend name. */
+  removeEpisode(episode: GraphitiEpisode): Promise<void> {
+    return this.deleteEpisode(episode.uuid);
+  }
+
+  /**
+   * Graphiti reports failed operations as an `{ error }` payload rather
+   * than an MCP error; turn those into exceptions.
+   */
+  private assertSucceeded(operation: GraphitiOperation, result: unknown) {
+    if (!result || typeof result !== "object" || Array.isArray(result)) return;
+    const error = (result as { error?: unknown }).error;
+    if (typeof error === "string" && error) {
+      throw new Error(`Graphiti ${operation} failed: ${error}`);
+    }
+  }
+
   /**
    * Check whether the Graphiti MCP server is reachable.
    */
-  async getStatus(): Promise<boolean> {
+  async getStatus(signal?: AbortSignal): Promise<boolean> {
     try {
-      await this.callTool("get_status", {});
+      await this.callTool("getStatus", {}, {
+        timeout: this.timeouts.status,
+        signal,
+      });
       return true;
     } catch {
       return false;
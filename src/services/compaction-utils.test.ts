@@ -3,6 +3,7 @@ import { describe, it } from "jsr:@std/testing@^1.0.0/bdd";
 import type { GraphitiFact, GraphitiNode } from "../types/index.ts";
 import { classifyFacts, takeFactsWithinBudget } from "./compaction.ts";
 import { formatFactLine } from "./context.ts";
+import { createHeuristicTokenCounter } from "./tokenizer.ts";
 
 /**
  * Tests for planned compaction utility functions:
@@ -49,6 +50,23 @@ describe("compaction-utils (planned)", () => {
       assertEquals(result.active.map((fact) => fact.uuid), ["f1"]);
     });
 
+    it("should use a custom active window", () => {
+      const facts: GraphitiFact[] = [
+        {
+          uuid: "f1",
+          fact: "Recent update",
+          valid_at: "2026-02-10T00:00:00Z",
+        },
+      ];
+      const result = classifyFacts(
+        facts,
+        new Date("2026-02-14T00:00:00Z"),
+        2,
+      );
+      assertEquals(result.active, []);
+      assertEquals(result.background.map((fact) => fact.uuid), ["f1"]);
+    });
+
     it("should classify background facts as default", () => {
       const facts: GraphitiFact[] = [
         { uuid: "f1", fact: "General context fact" },
@@ -178,6 +196,9 @@ describe("compaction-utils (planned)", () => {
   });
 
   describe("prioritizeFacts", () => {
+    // One token per character keeps the budgets below readable.
+    const perCharacter = createHeuristicTokenCounter(1);
+
     it("should prioritize decision facts in compaction", () => {
       const facts: GraphitiFact[] = [
         { uuid: "f1", fact: "Background fact" },
@@ -191,11 +212,12 @@ describe("compaction-utils (planned)", () => {
           factStaleDays: 30,
           now: new Date("2026-02-14T00:00:00Z"),
         },
+        perCharacter,
       );
       assertEquals(selected.map((fact) => fact.uuid), ["f2"]);
     });
 
-    it("should include facts up to character budget", () => {
+    it("should include facts up to the token budget", () => {
       const facts: GraphitiFact[] = [
         { uuid: "f1", fact: "Short fact" }, // ~10 chars content
         { uuid: "f2", fact: "Another short fact" }, // ~20 chars content
@@ -210,6 +232,7 @@ describe("compaction-utils (planned)", () => {
           factStaleDays: 30,
           now: new Date("2026-02-14T00:00:00Z"),
         },
+        perCharacter,
       );
       assertEquals(selected.map((fact) => fact.uuid), ["f1", "f2"]);
     });
@@ -226,6 +249,7 @@ describe("compaction-utils (planned)", () => {
           factStaleDays: 30,
           now: new Date("2026-02-14T00:00:00Z"),
         },
+        perCharacter,
       );
       assertEquals(selected.length, 0);
     });
@@ -239,6 +263,7 @@ describe("compaction-utils (planned)", () => {
           factStaleDays: 30,
           now: new Date("2026-02-14T00:00:00Z"),
         },
+        perCharacter,
       );
       assertEquals(selected.length, 0);
     });
@@ -256,6 +281,7 @@ describe("compaction-utils (planned)", () => {
           factStaleDays: 30,
           now: new Date("2026-02-14T00:00:00Z"),
         },
+        perCharacter,
       );
       assertEquals(selected.map((fact) => fact.uuid), ["f1"]);
     });
@@ -274,6 +300,7 @@ describe("compaction-utils (planned)", () => {
           factStaleDays: 30,
           now: new Date("2026-02-14T00:00:00Z"),
         },
+        perCharacter,
       );
       assertEquals(selected.map((fact) => fact.uuid), ["f1"]);
       assertEquals(nodes.length, 1);
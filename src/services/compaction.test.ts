@@ -126,7 +126,7 @@ describe("compaction", () => {
 
       const result = await getCompactionContext({
         client,
-        characterBudget: 1000,
+        tokenBudget: 250,
         groupIds: { project: "test:project" },
         contextStrings: [],
       });
@@ -140,7 +140,7 @@ describe("compaction", () => {
 
       const result = await getCompactionContext({
         client,
-        characterBudget: 1000,
+        tokenBudget: 250,
         groupIds: { project: "test:project" },
         contextStrings: ["", "   ", ""],
       });
@@ -154,7 +154,7 @@ describe("compaction", () => {
 
       await getCompactionContext({
         client,
-        characterBudget: 1000,
+        tokenBudget: 250,
         groupIds: { project: "test:project" },
         contextStrings: ["First context", "Second context", "Third context"],
       });
@@ -174,7 +174,7 @@ describe("compaction", () => {
 
       await getCompactionContext({
         client,
-        characterBudget: 1000,
+        tokenBudget: 250,
         groupIds: { project: "test:project" },
         contextStrings: ["One", "Two", "Three", "Four", "Five"],
       });
@@ -189,7 +189,7 @@ describe("compaction", () => {
       const longString = "a".repeat(300);
       await getCompactionContext({
         client,
-        characterBudget: 1000,
+        tokenBudget: 250,
         groupIds: { project: "test:project" },
         contextStrings: [longString, longString],
       });
@@ -203,7 +203,7 @@ describe("compaction", () => {
 
       const result = await getCompactionContext({
         client,
-        characterBudget: 1000,
+        tokenBudget: 250,
         groupIds: { project: "test:project" },
         contextStrings: ["some context"],
       });
@@ -220,7 +220,7 @@ describe("compaction", () => {
 
       const result = await getCompactionContext({
         client,
-        characterBudget: 1000,
+        tokenBudget: 250,
         groupIds: { project: "test:project" },
         contextStrings: ["context"],
       });
@@ -246,7 +246,7 @@ describe("compaction", () => {
 
       const result = await getCompactionContext({
         client,
-        characterBudget: 1000,
+        tokenBudget: 250,
         groupIds: { project: "test:project" },
         contextStrings: ["context"],
       });
@@ -262,7 +262,7 @@ describe("compaction", () => {
 
       const result = await getCompactionContext({
         client,
-        characterBudget: 120,
+        tokenBudget: 30,
         groupIds: { project: "test:project" },
         contextStrings: ["context"],
       });
@@ -277,7 +277,7 @@ describe("compaction", () => {
 
       await getCompactionContext({
         client,
-        characterBudget: 1000,
+        tokenBudget: 250,
         groupIds: { project: "test:project", user: "test:user" },
         contextStrings: ["context"],
       });
@@ -294,7 +294,7 @@ describe("compaction", () => {
 
       await getCompactionContext({
         client,
-        characterBudget: 1000,
+        tokenBudget: 250,
         groupIds: { project: "test:project" },
         contextStrings: ["context"],
       });
@@ -313,7 +313,7 @@ describe("compaction", () => {
 
       const result = await getCompactionContext({
         client,
-        characterBudget: 1000,
+        tokenBudget: 250,
         groupIds: { project: "test:project", user: "test:user" },
         contextStrings: ["context"],
       });
@@ -345,7 +345,7 @@ describe("compaction", () => {
 
       const result = await getCompactionContext({
         client,
-        characterBudget: 1000,
+        tokenBudget: 250,
         groupIds: { project: "test:project", user: "test:user" },
         contextStrings: ["context"],
       });
@@ -363,7 +363,7 @@ describe("compaction", () => {
 
       const result = await getCompactionContext({
         client,
-        characterBudget: 1000,
+        tokenBudget: 250,
         groupIds: { project: "test:project" },
         contextStrings: ["context"],
       });
@@ -382,7 +382,7 @@ describe("compaction", () => {
 
       await getCompactionContext({
         client,
-        characterBudget: 1000,
+        tokenBudget: 250,
         groupIds: { project: "test:project" },
         contextStrings: ["context"],
       });
@@ -398,7 +398,7 @@ describe("compaction", () => {
 
       await getCompactionContext({
         client,
-        characterBudget: 1000,
+        tokenBudget: 250,
         groupIds: { project: "test:project", user: "test:user" },
         contextStrings: ["context"],
       });
@@ -417,7 +417,7 @@ describe("compaction", () => {
 
       const result = await getCompactionContext({
         client,
-        characterBudget: 1000,
+        tokenBudget: 250,
         groupIds: { project: "test:project" },
         contextStrings: ["context"],
       });
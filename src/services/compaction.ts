@@ -1,12 +1,32 @@
-import type { GraphitiFact, GraphitiNode } from "../types/index.ts";
+import type {
+  GraphitiBudgetConfig,
+  GraphitiCompactionConfig,
+  GraphitiFact,
+  GraphitiNode,
+  GraphitiRetrievalConfig,
+} from "../types/index.ts";
+import { DEFAULT_BUDGET } from "./context-limit.ts";
 import {
   deduplicateContext,
+  DEFAULT_RETRIEVAL,
   formatFactLines,
   formatNodeLines,
 } from "./context.ts";
 import { logger } from "./logger.ts";
+import {
+  createHeuristicTokenCounter,
+  type TokenCounter,
+  truncateToTokens,
+} from "./tokenizer.ts";
 
 const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Default split of 40% decisions, 35% active and 25% background facts. */
+export const DEFAULT_COMPACTION: GraphitiCompactionConfig = {
+  decisionShare: 0.4,
+  activeShare: 0.35,
+  activeDays: 7,
+};
 const DECISION_KEYWORDS = [
   "decided",
   "must",
@@ -27,6 +47,7 @@ const DECISION_KEYWORDS = [
 export const classifyFacts = (
   facts: GraphitiFact[],
   now: Date,
+  activeDays = DEFAULT_COMPACTION.activeDays,
 ): {
   decisions: GraphitiFact[];
   active: GraphitiFact[];
@@ -35,7 +56,7 @@ export const classifyFacts = (
   const decisions: GraphitiFact[] = [];
   const active: GraphitiFact[] = [];
   const background: GraphitiFact[] = [];
-  const cutoff = now.getTime() - 7 * DAY_MS;
+  const cutoff = now.getTime() - activeDays * DAY_MS;
 
   for (const fact of facts) {
     const text = fact.fact.toLowerCase();
@@ -63,11 +84,18 @@ export const classifyFacts = (
 export const takeFactsWithinBudget = (
   facts: GraphitiFact[],
   budget: number,
-  formatOptions: { factStaleDays: number; now: Date },
+  formatOptions: { factStaleDays: number; now: Date; activeDays?: number },
+  tokenCounter: TokenCounter = createHeuristicTokenCounter(
+    DEFAULT_BUDGET.charsPerToken,
+  ),
 ): GraphitiFact[] => {
   if (budget <= 0 || facts.length === 0) return [];
 
-  const classified = classifyFacts(facts, formatOptions.now);
+  const classified = classifyFacts(
+    facts,
+    formatOptions.now,
+    formatOptions.activeDays,
+  );
   const prioritized = [
     ...classified.decisions,
     ...classified.active,
@@ -78,10 +106,10 @@ export const takeFactsWithinBudget = (
   let remaining = budget;
   for (let i = 0; i < lines.length; i++) {
     const line = lines[i];
-    const length = line.length + 1;
-    if (remaining - length < 0) continue;
+    const tokens = tokenCounter.count(`${line}\n`);
+    if (remaining - tokens < 0) continue;
     selected.push(prioritized[i]);
-    remaining -= length;
+    remaining -= tokens;
   }
   return selected;
 };
@@ -137,15 +165,32 @@ export async function getCompactionContext(params: {
       maxNodes?: number;
     }) => Promise<GraphitiNode[]>;
   };
-  characterBudget: number;
+  /** Size of the added context in tokens. */
+  tokenBudget: number;
+  /** Counts the tokens of the added context; estimated when omitted. */
+  tokenCounter?: TokenCounter;
   groupIds: {
-    project: string;
-    user?: string;
+    /** Project group, or several searched together (e.g. with a branch). */
+    project: string | string[];
+    user?: string | string[];
   };
   contextStrings: string[];
   factStaleDays?: number;
+  retrieval?: GraphitiRetrievalConfig;
+  budget?: Pick<GraphitiBudgetConfig, "projectShare" | "charsPerToken">;
+  compaction?: GraphitiCompactionConfig;
 }): Promise<string[]> {
-  const { client, characterBudget, groupIds, contextStrings } = params;
+  const {
+    client,
+    tokenBudget,
+    groupIds,
+    contextStrings,
+    retrieval = DEFAULT_RETRIEVAL,
+    budget: { projectShare, charsPerToken } = DEFAULT_BUDGET,
+    compaction = DEFAULT_COMPACTION,
+  } = params;
+  const tokenCounter = params.tokenCounter ??
+    createHeuristicTokenCounter(charsPerToken);
   const now = new Date();
   const factStaleDays = params.factStaleDays ?? 30;
 
@@ -153,29 +198,30 @@ export async function getCompactionContext(params: {
     const queryText = contextStrings.slice(0, 3).join(" ").slice(0, 500);
     if (!queryText.trim()) return [];
 
+    const projectGroupIds = [groupIds.project].flat();
     const projectFactsPromise = client.searchFacts({
       query: queryText,
-      groupIds: [groupIds.project],
-      maxFacts: 50,
+      groupIds: projectGroupIds,
+      maxFacts: retrieval.projectFacts,
     });
     const projectNodesPromise = client.searchNodes({
       query: queryText,
-      groupIds: [groupIds.project],
-      maxNodes: 30,
+      groupIds: projectGroupIds,
+      maxNodes: retrieval.projectNodes,
     });
-    const userGroupId = groupIds.user;
-    const userFactsPromise = userGroupId
+    const userGroupIds = [groupIds.user ?? []].flat();
+    const userFactsPromise = userGroupIds.length > 0
       ? client.searchFacts({
         query: queryText,
-        groupIds: [userGroupId],
-        maxFacts: 20,
+        groupIds: userGroupIds,
+        maxFacts: retrieval.userFacts,
       })
       : Promise.resolve([] as GraphitiFact[]);
-    const userNodesPromise = userGroupId
+    const userNodesPromise = userGroupIds.length > 0
       ? client.searchNodes({
         query: queryText,
-        groupIds: [userGroupId],
-        maxNodes: 10,
+        groupIds: userGroupIds,
+        maxNodes: retrieval.userNodes,
       })
       : Promise.resolve([] as GraphitiNode[]);
 
@@ -194,7 +240,11 @@ export async function getCompactionContext(params: {
       return [];
     }
 
-    const formatOptions = { factStaleDays, now };
+    const formatOptions = {
+      factStaleDays,
+      now,
+      activeDays: compaction.activeDays,
+    };
     const projectContext = deduplicateContext({
       facts: projectFacts,
       nodes: projectNodes,
@@ -216,25 +266,28 @@ export async function getCompactionContext(params: {
         "<instruction>Background context only; do not reference in titles, summaries, or opening responses unless directly relevant.</instruction>",
       );
 
-      const classified = classifyFacts(facts, now);
-      const decisionBudget = Math.floor(budget * 0.4);
-      const activeBudget = Math.floor(budget * 0.35);
+      const classified = classifyFacts(facts, now, compaction.activeDays);
+      const decisionBudget = Math.floor(budget * compaction.decisionShare);
+      const activeBudget = Math.floor(budget * compaction.activeShare);
       const backgroundBudget = budget - decisionBudget - activeBudget;
 
       const selectedDecisions = takeFactsWithinBudget(
         classified.decisions,
         decisionBudget,
         formatOptions,
+        tokenCounter,
       );
       const selectedActive = takeFactsWithinBudget(
         classified.active,
         activeBudget,
         formatOptions,
+        tokenCounter,
       );
       const selectedBackground = takeFactsWithinBudget(
         classified.background,
         backgroundBudget,
         formatOptions,
+        tokenCounter,
       );
 
       if (selectedDecisions.length > 0) {
@@ -278,8 +331,11 @@ export async function getCompactionContext(params: {
     ];
     const header = headerLines.join("\n");
     const base = `${header}\n`;
-    const remainingBudget = Math.max(characterBudget - base.length, 0);
-    const projectBudget = Math.floor(remainingBudget * 0.7);
+    const remainingBudget = Math.max(
+      tokenBudget - tokenCounter.count(base),
+      0,
+    );
+    const projectBudget = Math.floor(remainingBudget * projectShare);
     const userBudget = remainingBudget - projectBudget;
     const projectSection = buildSection(
       '<memory source="project">',
@@ -293,8 +349,16 @@ export async function getCompactionContext(params: {
       userContext.nodes,
       userBudget,
     );
-    const truncatedProject = projectSection.slice(0, projectBudget);
-    const truncatedUser = userSection.slice(0, userBudget);
+    const truncatedProject = truncateToTokens(
+      projectSection,
+      projectBudget,
+      tokenCounter,
+    );
+    const truncatedUser = truncateToTokens(
+      userSection,
+      userBudget,
+      tokenCounter,
+    );
 
     const sections: string[] = [header];
     if (truncatedProject.trim()) {
@@ -308,7 +372,11 @@ export async function getCompactionContext(params: {
     sections.push("</persistent_memory>");
     sections.push("</summary>");
 
-    const content = sections.join("\n").slice(0, characterBudget);
+    const content = truncateToTokens(
+      sections.join("\n"),
+      tokenBudget,
+      tokenCounter,
+    );
     return [content];
   } catch (err) {
     logger.error("Failed to get compaction context:", err);
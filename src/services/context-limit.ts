@@ -1,10 +1,26 @@
 import type { OpencodeClient } from "@opencode-ai/sdk";
+import type { GraphitiBudgetConfig } from "../types/index.ts";
 import { logger } from "./logger.ts";
 
 const DEFAULT_CONTEXT_LIMIT = 200_000;
 
 const contextLimitCache = new Map<string, number>();
 
+/**
+ * Default memory budget: 5% of the context, 70% of it for the project and
+ * 60% of that for the current workspace package. Related projects get 15%
+ * off the top when they have anything to add.
+ */
+export const DEFAULT_BUDGET: GraphitiBudgetConfig = {
+  contextShare: 0.05,
+  tokenizer: "auto",
+  charsPerToken: 4,
+  projectShare: 0.7,
+  packageShare: 0.6,
+  relatedShare: 0.15,
+  snapshotTokens: 300,
+};
+
 export async function resolveContextLimit(
   providerID: string,
   modelID: string,
@@ -46,9 +62,12 @@ export async function resolveContextLimit(
 }
 
 /**
- * Calculate the character budget for memory injection
- * (5% of context limit * 4 chars/token).
+ * Calculate the token budget for memory injection (context share of the
+ * context limit).
  */
-export function calculateInjectionBudget(contextLimit: number): number {
-  return Math.floor(contextLimit * 0.05 * 4);
+export function calculateInjectionBudget(
+  contextLimit: number,
+  budget: Pick<GraphitiBudgetConfig, "contextShare"> = DEFAULT_BUDGET,
+): number {
+  return Math.floor(contextLimit * budget.contextShare);
 }
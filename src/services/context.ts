@@ -1,7 +1,22 @@
-import type { GraphitiFact, GraphitiNode } from "../types/index.ts";
+import type {
+  GraphitiFact,
+  GraphitiNode,
+  GraphitiRetrievalConfig,
+} from "../types/index.ts";
 
 const DAY_MS = 24 * 60 * 60 * 1000;
 
+/** Default result limits for memory searches. */
+export const DEFAULT_RETRIEVAL: GraphitiRetrievalConfig = {
+  projectFacts: 50,
+  projectNodes: 30,
+  userFacts: 20,
+  userNodes: 10,
+  relatedFacts: 10,
+  relatedNodes: 5,
+  driftFacts: 20,
+};
+
 export const parseDate = (value?: string): Date | null => {
   if (!value) return null;
   const parsed = Date.parse(value);
@@ -140,7 +155,8 @@ export const deduplicateContext = (params: {
 };
 
 /**
- * Format Graphiti facts and nodes into a user-facing context block.
+ * Format Graphiti facts and nodes into a user-facing context block. With an
+ * `origin`, the block is labelled as memory of that other project.
  */
 export function formatMemoryContext(
   facts: GraphitiFact[],
@@ -148,6 +164,7 @@ export function formatMemoryContext(
   options?: {
     factStaleDays?: number;
     now?: Date;
+    origin?: string;
   },
 ): string {
   if (facts.length === 0 && nodes.length === 0) {
@@ -155,15 +172,27 @@ export function formatMemoryContext(
   }
 
   const sections: string[] = [];
-  sections.push(
-    "# Persistent Memory (from Graphiti Knowledge Graph)",
-  );
-  sections.push(
-    "The following information was retrieved from your persistent memory.",
-  );
-  sections.push(
-    "Use this context to inform your responses, but do not mention it unless asked.",
-  );
+  if (options?.origin) {
+    sections.push(
+      `# Related Project Memory: ${options.origin} (from Graphiti Knowledge Graph)`,
+    );
+    sections.push(
+      `The following information was retrieved from the memory of the related project ${options.origin}.`,
+    );
+    sections.push(
+      "It may not hold for this project; say where it came from when you rely on it.",
+    );
+  } else {
+    sections.push(
+      "# Persistent Memory (from Graphiti Knowledge Graph)",
+    );
+    sections.push(
+      "The following information was retrieved from your persistent memory.",
+    );
+    sections.push(
+      "Use this context to inform your responses, but do not mention it unless asked.",
+    );
+  }
 
   if (facts.length > 0) {
     sections.push("");
@@ -0,0 +1,332 @@
+import {
+  assertEquals,
+  assertRejects,
+  assertStrictEquals,
+} from "jsr:@std/assert@^1.0.0";
+import { describe, it } from "jsr:@std/testing@^1.0.0/bdd";
+import { join } from "node:path";
+import { FakeGraphitiServer } from "../testing/fake-graphiti-server.ts";
+import { GraphitiClient } from "./client.ts";
+import { EpisodeQueue, getEndpointQueuePath } from "./episode-queue.ts";
+
+const withQueuePath = async (fn: (path: string) => Promise<void>) => {
+  const dir = await Deno.makeTempDir();
+  try {
+    await fn(join(dir, "nested", "episode-queue.jsonl"));
+  } finally {
+    await Deno.remove(dir, { recursive: true });
+  }
+};
+
+const episode = (name: string) => ({
+  name,
+  episodeBody: `${name} body`,
+  groupId: "test:project",
+  source: "text" as const,
+  sourceDescription: "test",
+});
+
+describe("episode-queue", () => {
+  describe("EpisodeQueue", () => {
+    it("should return episodes in enqueue order", async () => {
+      await withQueuePath(async (path) => {
+        const queue = new EpisodeQueue(path);
+        await queue.enqueue(episode("first"));
+        await queue.enqueue(episode("second"));
+
+        const entries = await queue.list();
+        assertEquals(entries.map((entry) => entry.episode.name), [
+          "first",
+          "second",
+        ]);
+        assertStrictEquals((await queue.peek())?.episode.name, "first");
+      });
+    });
+
+    it("should drop acknowledged episodes", async () => {
+      await withQueuePath(async (path) => {
+        const queue = new EpisodeQueue(path);
+        const first = await queue.enqueue(episode("first"));
+        await queue.enqueue(episode("second"));
+
+        await queue.ack(first.id);
+
+        assertStrictEquals(await queue.size(), 1);
+        assertStrictEquals((await queue.peek())?.episode.name, "second");
+      });
+    });
+
+    it("should survive being reopened", async () => {
+      await withQueuePath(async (path) => {
+        const first = new EpisodeQueue(path);
+        const entry = await first.enqueue(episode("first"));
+        await first.enqueue(episode("second"));
+        await first.ack(entry.id);
+
+        const reopened = new EpisodeQueue(path);
+        const entries = await reopened.list();
+        assertEquals(entries.map((item) => item.episode), [episode("second")]);
+      });
+    });
+
+    it("should compact the log once every episode is delivered", async () => {
+      await withQueuePath(async (path) => {
+        const queue = new EpisodeQueue(path);
+        const entry = await queue.enqueue(episode("first"));
+        await queue.ack(entry.id);
+
+        assertStrictEquals(await Deno.readTextFile(path), "");
+        assertStrictEquals(await queue.size(), 0);
+      });
+    });
+
+    it("should skip a torn trailing record", async () => {
+      await withQueuePath(async (path) => {
+        const queue = new EpisodeQueue(path);
+        await queue.enqueue(episode("first"));
+        await Deno.writeTextFile(path, '{"type":"enq', { append: true });
+
+        const entries = await queue.list();
+        assertEquals(entries.map((item) => item.episode.name), ["first"]);
+      });
+    });
+
+    it("should append after a torn trailing record", async () => {
+      await withQueuePath(async (path) => {
+        const queue = new EpisodeQueue(path);
+        await queue.enqueue(episode("first"));
+        await Deno.writeTextFile(path, '{"type":"enq', { append: true });
+        await queue.enqueue(episode("second"));
+
+        const entries = await new EpisodeQueue(path).list();
+        assertEquals(entries.map((item) => item.episode.name), [
+          "first",
+          "second",
+        ]);
+      });
+    });
+
+    it("should keep episodes another process appends while compacting", async () => {
+      await withQueuePath(async (path) => {
+        const delivering = new EpisodeQueue(path);
+        const other = new EpisodeQueue(path);
+        const names = Array.from({ length: 20 }, (_, i) => `other-${i}`);
+
+        await Promise.all([
+          (async () => {
+            for (let i = 0; i < 20; i++) {
+              const entry = await delivering.enqueue(episode(`own-${i}`));
+              await delivering.ack(entry.id);
+            }
+          })(),
+          (async () => {
+            for (const name of names) await other.enqueue(episode(name));
+          })(),
+        ]);
+
+        const entries = await new EpisodeQueue(path).list();
+        assertEquals(entries.map((item) => item.episode.name), names);
+      });
+    });
+
+    it("should let one process deliver at a time", async () => {
+      await withQueuePath(async (path) => {
+        let release = () => {};
+        let started = () => {};
+        const delivering = new Promise<void>((resolve) => started = resolve);
+        const first = new EpisodeQueue(path).deliverExclusively(() =>
+          new Promise<string>((resolve) => {
+            release = () => resolve("first");
+            started();
+          })
+        );
+        await delivering;
+
+        const skipped = await new EpisodeQueue(path).deliverExclusively(() =>
+          Promise.resolve("second")
+        );
+        release();
+
+        assertStrictEquals(skipped, undefined);
+        assertStrictEquals(await first, "first");
+        assertStrictEquals(
+          await new EpisodeQueue(path).deliverExclusively(() =>
+            Promise.resolve("third")
+          ),
+          "third",
+        );
+      });
+    });
+
+    it("should take over the lock of a crashed process", async () => {
+      await withQueuePath(async (path) => {
+        const child = new Deno.Command("true").spawn();
+        await child.status;
+        await new EpisodeQueue(path).list();
+        await Deno.writeTextFile(`${path}.lock`, String(child.pid));
+
+        const queue = new EpisodeQueue(path);
+        await queue.enqueue(episode("first"));
+
+        assertStrictEquals(await queue.size(), 1);
+      });
+    });
+
+    it("should treat a missing file as an empty queue", async () => {
+      await withQueuePath(async (path) => {
+        const queue = new EpisodeQueue(path);
+        assertStrictEquals(await queue.peek(), undefined);
+        assertStrictEquals(await queue.size(), 0);
+      });
+    });
+  });
+
+  describe("getEndpointQueuePath", () => {
+    it("should derive a separate queue file per endpoint", () => {
+      const base = "/data/episode-queue.jsonl";
+      const primary = getEndpointQueuePath("http://primary/mcp", base);
+      const standby = getEndpointQueuePath("http://standby/mcp", base);
+
+      assertStrictEquals(primary.startsWith("/data/episode-queue-"), true);
+      assertStrictEquals(primary.endsWith(".jsonl"), true);
+      assertStrictEquals(primary === standby, false);
+      assertStrictEquals(
+        getEndpointQueuePath("http://primary/mcp", base),
+        primary,
+      );
+    });
+  });
+
+  describe("GraphitiClient with queue", () => {
+    it("should keep episodes queued while Graphiti is unreachable", async () => {
+      await withQueuePath(async (path) => {
+        const queue = new EpisodeQueue(path);
+        const client = new GraphitiClient("http://127.0.0.1:1/mcp", { queue });
+
+        await client.addEpisode(episode("first"));
+        await client.addEpisode(episode("second"));
+
+        const entries = await queue.list();
+        assertEquals(entries.map((item) => item.episode.name), [
+          "first",
+          "second",
+        ]);
+      });
+    });
+
+    it("should keep episodes the server refused queued", async () => {
+      for (const fault of ["tool-error", "graphiti-error"] as const) {
+        await withQueuePath(async (path) => {
+          const server = new FakeGraphitiServer();
+          server.fail("add_memory", fault, 1);
+          const queue = new EpisodeQueue(path);
+          const client = new GraphitiClient("", {
+            queue,
+            transportFactory: () => server.createTransport(),
+          });
+          try {
+            await client.addEpisode(episode("first"));
+            assertStrictEquals(await queue.size(), 1);
+
+            await client.addEpisode(episode("second"));
+            assertEquals(server.episodes.map((item) => item.name), [
+              "first",
+              "second",
+            ]);
+            assertStrictEquals(await queue.size(), 0);
+          } finally {
+            await client.disconnect();
+            await server.close();
+          }
+        });
+      }
+    });
+
+    it("should leave delivery to the process already delivering", async () => {
+      await withQueuePath(async (path) => {
+        const server = new FakeGraphitiServer();
+        const queue = new EpisodeQueue(path);
+        await queue.list();
+        await Deno.writeTextFile(`${path}.delivery.lock`, String(Deno.pid));
+        const client = new GraphitiClient("", {
+          queue,
+          transportFactory: () => server.createTransport(),
+        });
+        try {
+          await client.addEpisode(episode("first"));
+
+          assertStrictEquals(server.callsTo("add_memory").length, 0);
+          assertStrictEquals(await queue.size(), 1);
+        } finally {
+          await client.disconnect();
+          await server.close();
+        }
+      });
+    });
+
+    it("should set aside episodes the server rejects", async () => {
+      await withQueuePath(async (path) => {
+        const server = new FakeGraphitiServer();
+        server.fail("add_memory", "invalid-params", 1);
+        const queue = new EpisodeQueue(path);
+        const client = new GraphitiClient("", {
+          queue,
+          transportFactory: () => server.createTransport(),
+        });
+        try {
+          await client.addEpisode(episode("rejected"));
+          await client.addEpisode(episode("accepted"));
+
+          assertEquals(server.episodes.map((item) => item.name), [
+            "accepted",
+          ]);
+          assertStrictEquals(await queue.size(), 0);
+          const [rejected] = (await Deno.readTextFile(queue.rejectedPath))
+            .trim().split("\n").map((line) => JSON.parse(line));
+          assertEquals(rejected.entry.episode.name, "rejected");
+        } finally {
+          await client.disconnect();
+          await server.close();
+        }
+      });
+    });
+
+    it("should stop draining and refuse calls once disconnected", async () => {
+      await withQueuePath(async (path) => {
+        const server = new FakeGraphitiServer();
+        server.delay("add_memory", 50);
+        const queue = new EpisodeQueue(path);
+        for (const name of ["first", "second", "third"]) {
+          await queue.enqueue(episode(name));
+        }
+        const client = new GraphitiClient("", {
+          queue,
+          transportFactory: () => server.createTransport(),
+        });
+        try {
+          const flushed = client.flushQueue();
+          while (server.callsTo("add_memory").length === 0) {
+            await new Promise((resolve) => setTimeout(resolve, 5));
+          }
+          await client.disconnect();
+          await flushed;
+
+          assertStrictEquals(server.callsTo("add_memory").length, 1);
+          assertEquals(
+            (await queue.list()).map((item) => item.episode.name),
+            ["second", "third"],
+          );
+          await assertRejects(
+            () => client.getEntityEdge("f1"),
+            Error,
+            "closed",
+          );
+          await client.flushQueue();
+          assertStrictEquals(server.connections, 1);
+        } finally {
+          await server.close();
+        }
+      });
+    });
+  });
+});
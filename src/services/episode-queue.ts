@@ -0,0 +1,202 @@
+import { createHash, randomUUID } from "node:crypto";
+import { open, readFile, rename } from "node:fs/promises";
+import { join } from "node:path";
+import process from "node:process";
+import type { GraphitiEpisodeInput } from "../types/index.ts";
+import { getDataDir } from "../utils.ts";
+import {
+  type FileLock,
+  tryAcquireFileLock,
+  withFileLock,
+} from "./file-lock.ts";
+import { appendJsonLine } from "./jsonl.ts";
+import { logger } from "./logger.ts";
+
+/** An episode recorded in the on-disk queue awaiting delivery. */
+export interface QueuedEpisode {
+  /** Unique identifier of the queue entry. */
+  id: string;
+  /** ISO timestamp of when the episode was enqueued. */
+  enqueuedAt: string;
+  /** Episode payload destined for Graphiti. */
+  episode: GraphitiEpisodeInput;
+}
+
+type QueueRecord =
+  | { type: "enqueue"; entry: QueuedEpisode }
+  | { type: "ack"; id: string };
+
+/** Number of acknowledged records tolerated before the log is compacted. */
+const COMPACT_THRESHOLD = 100;
+
+/**
+ * Resolve the default queue location under the OpenCode data directory.
+ */
+export const getDefaultQueuePath = (): string =>
+  join(getDataDir(), "episode-queue.jsonl");
+
+/**
+ * Derive a separate queue location per endpoint from a base queue path, so
+ * that episodes queued for one failover endpoint are only replayed to it.
+ */
+export const getEndpointQueuePath = (
+  endpoint: string,
+  basePath: string = getDefaultQueuePath(),
+): string => {
+  const hash = createHash("sha256").update(endpoint).digest("hex");
+  return `${basePath.replace(/\.jsonl$/, "")}-${hash.slice(0, 12)}.jsonl`;
+};
+
+/**
+ * Append-only write-ahead log of episodes destined for Graphiti.
+ *
+ * Every episode is appended and synced to disk before delivery is attempted
+ * and acknowledged once Graphiti accepted it, so undelivered episodes
+ * survive crashes and restarts and are replayed in their original order.
+ * Several OpenCode processes may share one queue file: changes to it are
+ * made under a lock file, and only one process delivers at a time.
+ */
+export class EpisodeQueue {
+  private lock: Promise<unknown> = Promise.resolve();
+  private ackedSinceCompaction = 0;
+  private deliveryLock?: FileLock;
+  /** File receiving the episodes Graphiti refused for good. */
+  readonly rejectedPath: string;
+
+  constructor(readonly filePath: string = getDefaultQueuePath()) {
+    this.rejectedPath = `${filePath.replace(/\.jsonl$/, "")}-rejected.jsonl`;
+  }
+
+  /** Durably record an episode at the tail of the queue. */
+  enqueue(episode: GraphitiEpisodeInput): Promise<QueuedEpisode> {
+    return this.withLock(async () => {
+      const entry: QueuedEpisode = {
+        id: randomUUID(),
+        enqueuedAt: new Date().toISOString(),
+        episode,
+      };
+      await appendJsonLine(this.filePath, { type: "enqueue", entry });
+      return entry;
+    });
+  }
+
+  /** Return the oldest undelivered episode, if any. */
+  peek(): Promise<QueuedEpisode | undefined> {
+    return this.withLock(async () => (await this.readPending())[0]);
+  }
+
+  /** List all undelivered episodes in delivery order. */
+  list(): Promise<QueuedEpisode[]> {
+    return this.withLock(() => this.readPending());
+  }
+
+  /** Count undelivered episodes. */
+  async size(): Promise<number> {
+    return (await this.list()).length;
+  }
+
+  /**
+   * Run `deliver` as the only deliverer of this queue across processes, so
+   * that processes sharing the queue file do not send an episode twice.
+   * Skipped, resolving to undefined, while another process delivers, since
+   * its backlog may take long; episodes queued meanwhile are delivered by
+   * that process or by a later flush.
+   */
+  async deliverExclusively<T>(
+    deliver: () => Promise<T>,
+  ): Promise<T | undefined> {
+    const lock = await tryAcquireFileLock(`${this.filePath}.delivery.lock`);
+    if (!lock) return undefined;
+    this.deliveryLock = lock;
+    try {
+      return await deliver();
+    } finally {
+      this.deliveryLock = undefined;
+      await lock.release();
+    }
+  }
+
+  /** Mark an episode as delivered so it is not replayed again. */
+  ack(id: string): Promise<void> {
+    return this.withLock(() => this.remove(id));
+  }
+
+  /**
+   * Move an episode Graphiti will never accept to {@link rejectedPath}, so
+   * that it no longer holds up the episodes queued after it.
+   */
+  reject(entry: QueuedEpisode, reason: string): Promise<void> {
+    return this.withLock(async () => {
+      await appendJsonLine(this.rejectedPath, {
+        rejectedAt: new Date().toISOString(),
+        reason,
+        entry,
+      });
+      await this.remove(entry.id);
+    });
+  }
+
+  private async remove(id: string): Promise<void> {
+    await this.deliveryLock?.refresh();
+    await appendJsonLine(this.filePath, { type: "ack", id });
+    this.ackedSinceCompaction += 1;
+    const pending = await this.readPending();
+    if (
+      pending.length === 0 || this.ackedSinceCompaction >= COMPACT_THRESHOLD
+    ) {
+      await this.compact(pending);
+    }
+  }
+
+  private withLock<T>(fn: () => Promise<T>): Promise<T> {
+    const locked = () => withFileLock(`${this.filePath}.lock`, fn);
+    const run = this.lock.then(locked, locked);
+    this.lock = run.catch(() => undefined);
+    return run;
+  }
+
+  private async readPending(): Promise<QueuedEpisode[]> {
+    let raw: string;
+    try {
+      raw = await readFile(this.filePath, "utf8");
+    } catch (err) {
+      if ((err as { code?: string }).code === "ENOENT") return [];
+      throw err;
+    }
+
+    const pending = new Map<string, QueuedEpisode>();
+    for (const line of raw.split("\n")) {
+      if (!line.trim()) continue;
+      let record: QueueRecord;
+      try {
+        record = JSON.parse(line);
+      } catch {
+        // A crash mid-append can leave a torn last line; skip it.
+        logger.warn("Skipping unreadable episode queue record");
+        continue;
+      }
+      if (record.type === "enqueue") {
+        pending.set(record.entry.id, record.entry);
+      } else if (record.type === "ack") {
+        pending.delete(record.id);
+      }
+    }
+    return [...pending.values()];
+  }
+
+  private async compact(pending: QueuedEpisode[]): Promise<void> {
+    const body = pending
+      .map((entry) => `${JSON.stringify({ type: "enqueue", entry })}\n`)
+      .join("");
+    const tempPath = `${this.filePath}.${process.pid}.tmp`;
+    const handle = await open(tempPath, "w");
+    try {
+      await handle.writeFile(body, "utf8");
+      await handle.sync();
+    } finally {
+      await handle.close();
+    }
+    await rename(tempPath, this.filePath);
+    this.ackedSinceCompaction = 0;
+  }
+}
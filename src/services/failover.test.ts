@@ -0,0 +1,201 @@
+import {
+  assertEquals,
+  assertRejects,
+  assertThrows,
+} from "jsr:@std/assert@^1.0.0";
+import { describe, it } from "jsr:@std/testing@^1.0.0/bdd";
+import type { GraphitiEpisodeInput, GraphitiFact } from "../types/index.ts";
+import type { GetEpisodesParams, RemoteMemoryBackend } from "./backend.ts";
+import { FailoverMemoryBackend, type FailoverOptions } from "./failover.ts";
+
+/** Endpoint that answers like a client: empty results once it is down. */
+class FakeEndpoint implements RemoteMemoryBackend {
+  available = true;
+  down = false;
+  probes = 0;
+  reads = 0;
+  episodes: GraphitiEpisodeInput[] = [];
+
+  constructor(private readonly facts: GraphitiFact[]) {}
+
+  addEpisode(params: GraphitiEpisodeInput) {
+    this.episodes.push(params);
+    return Promise.resolve();
+  }
+  searchFacts() {
+    this.reads += 1;
+    this.available = !this.down;
+    return Promise.resolve(this.down ? [] : this.facts);
+  }
+  searchNodes() {
+    return Promise.resolve([]);
+  }
+  getEpisodes(params: GetEpisodesParams) {
+    this.reads += 1;
+    this.available = !this.down;
+    if (this.down && params.strict) {
+      return Promise.reject(new Error("Endpoint down"));
+    }
+    return Promise.resolve([]);
+  }
+  getStatus() {
+    this.probes += 1;
+    this.available = !this.down;
+    return Promise.resolve(this.available);
+  }
+}
+
+const fact = (uuid: string): GraphitiFact => ({ uuid, fact: `Fact ${uuid}` });
+
+const setup = (options: FailoverOptions = {}) => {
+  const primary = new FakeEndpoint([fact("primary")]);
+  const secondary = new FakeEndpoint([fact("secondary")]);
+  const backend = new FailoverMemoryBackend([
+    { label: "http://primary", backend: primary },
+    { label: "http://secondary", backend: secondary },
+  ], options);
+  return { primary, secondary, backend };
+};
+
+const query = { query: "anything" };
+
+describe("FailoverMemoryBackend", () => {
+  it("should require at least one endpoint", () => {
+    assertThrows(() => new FailoverMemoryBackend([]));
+  });
+
+  it("should read from the primary endpoint while it is up", async () => {
+    const { primary, secondary, backend } = setup();
+
+    assertEquals((await backend.searchFacts(query))[0].uuid, "primary");
+    assertEquals(secondary.reads, 0);
+    assertEquals(primary.reads, 1);
+  });
+
+  it("should trust an empty result from a healthy endpoint", async () => {
+    const secondary = new FakeEndpoint([fact("secondary")]);
+    const empty = new FailoverMemoryBackend([
+      { label: "http://empty", backend: new FakeEndpoint([]) },
+      { label: "http://secondary", backend: secondary },
+    ]);
+
+    assertEquals(await empty.searchFacts(query), []);
+    assertEquals(secondary.reads, 0);
+  });
+
+  it("should fail over when an endpoint goes down during a read", async () => {
+    const { primary, backend } = setup();
+    primary.down = true;
+
+    assertEquals((await backend.searchFacts(query))[0].uuid, "secondary");
+    assertEquals(primary.available, false);
+    assertEquals(backend.available, true);
+  });
+
+  it("should fail back once a probe finds the primary recovered", async () => {
+    let now = 0;
+    const { primary, backend } = setup({
+      probeIntervalMs: 1_000,
+      now: () => now,
+    });
+    primary.down = true;
+    await backend.searchFacts(query);
+    const readsWhileDown = primary.reads;
+
+    // Within the probe interval the primary is neither probed nor read.
+    now = 500;
+    primary.down = false;
+    assertEquals((await backend.searchFacts(query))[0].uuid, "secondary");
+    assertEquals(primary.reads, readsWhileDown);
+    const probes = primary.probes;
+
+    now = 1_500;
+    await backend.searchFacts(query);
+    assertEquals(primary.probes, probes + 1);
+    assertEquals((await backend.searchFacts(query))[0].uuid, "primary");
+  });
+
+  it("should return nothing when every endpoint is down", async () => {
+    const { primary, secondary, backend } = setup();
+    primary.down = true;
+    secondary.down = true;
+
+    assertEquals(await backend.searchFacts(query), []);
+    assertEquals(backend.available, false);
+    assertEquals(await backend.getStatus(), false);
+  });
+
+  it("should fail strict reads only when every endpoint fails", async () => {
+    const { primary, secondary, backend } = setup();
+    primary.down = true;
+
+    assertEquals(await backend.getEpisodes({ strict: true }), []);
+    assertEquals(secondary.reads, 1);
+    secondary.down = true;
+    await assertRejects(
+      () => backend.getEpisodes({ strict: true }),
+      Error,
+      "Endpoint down",
+    );
+  });
+
+  it("should stop failing over once the caller aborts", async () => {
+    const { primary, secondary, backend } = setup();
+    primary.down = true;
+    const controller = new AbortController();
+    primary.searchFacts = () => {
+      controller.abort();
+      primary.available = false;
+      return Promise.resolve([]);
+    };
+
+    assertEquals(
+      await backend.searchFacts({ ...query, signal: controller.signal }),
+      [],
+    );
+    assertEquals(secondary.reads, 0);
+  });
+
+  it("should report healthy while any endpoint is reachable", async () => {
+    const { primary, backend } = setup();
+    primary.down = true;
+
+    assertEquals(await backend.getStatus(), true);
+    assertEquals(primary.available, false);
+  });
+
+  describe("write policy", () => {
+    const episode = { name: "Note", episodeBody: "Note body" };
+
+    it("should write to the primary endpoint by default", async () => {
+      const { primary, secondary, backend } = setup();
+      primary.available = false;
+
+      await backend.addEpisode(episode);
+
+      assertEquals(primary.episodes.length, 1);
+      assertEquals(secondary.episodes.length, 0);
+    });
+
+    it("should write to the first available endpoint with 'any'", async () => {
+      const { primary, secondary, backend } = setup({ writePolicy: "any" });
+
+      await backend.addEpisode(episode);
+      primary.available = false;
+      await backend.addEpisode(episode);
+
+      assertEquals(primary.episodes.length, 1);
+      assertEquals(secondary.episodes.length, 1);
+    });
+
+    it("should fall back to the primary when none is available", async () => {
+      const { primary, secondary, backend } = setup({ writePolicy: "any" });
+      primary.available = false;
+      secondary.available = false;
+
+      await backend.addEpisode(episode);
+
+      assertEquals(primary.episodes.length, 1);
+    });
+  });
+});
@@ -0,0 +1,166 @@
+import type {
+  GraphitiEpisode,
+  GraphitiEpisodeInput,
+  GraphitiFact,
+  GraphitiNode,
+  GraphitiWritePolicy,
+} from "../types/index.ts";
+import type {
+  GetEpisodesParams,
+  RemoteMemoryBackend,
+  SearchFactsParams,
+  SearchNodesParams,
+} from "./backend.ts";
+import { logger } from "./logger.ts";
+
+/** One endpoint of a {@link FailoverMemoryBackend}. */
+export interface FailoverMember {
+  /** Name used in log messages, e.g. the endpoint URL. */
+  label: string;
+  /** Backend talking to the endpoint. */
+  backend: RemoteMemoryBackend;
+}
+
+/** Tuning options for {@link FailoverMemoryBackend}. */
+export interface FailoverOptions {
+  /** Which endpoint receives episodes. */
+  writePolicy?: GraphitiWritePolicy;
+  /** Minimum delay between health probes of an unavailable endpoint. */
+  probeIntervalMs?: number;
+  /** Clock source, overridable for testing. */
+  now?: () => number;
+}
+
+/**
+ * Spread memory operations over an ordered list of Graphiti endpoints.
+ *
+ * Reads go to the first available endpoint and fall through to the next
+ * one when it turns out to be down. Unavailable endpoints are probed with
+ * `getStatus` in the background, at most once per probe interval, so reads
+ * move back to a preferred endpoint once it recovers. Writes follow the
+ * configured {@link GraphitiWritePolicy}.
+ */
+export class FailoverMemoryBackend implements RemoteMemoryBackend {
+  private readonly writePolicy: GraphitiWritePolicy;
+  private readonly probeIntervalMs: number;
+  private readonly now: () => number;
+  private readonly lastProbe = new Map<FailoverMember, number>();
+
+  constructor(
+    private readonly members: FailoverMember[],
+    options: FailoverOptions = {},
+  ) {
+    if (members.length === 0) {
+      throw new Error("Failover requires at least one endpoint");
+    }
+    this.writePolicy = options.writePolicy ?? "primary";
+    this.probeIntervalMs = options.probeIntervalMs ?? 30_000;
+    this.now = options.now ?? Date.now;
+  }
+
+  /** Whether any endpoint is currently available. */
+  get available(): boolean {
+    return this.members.some((member) => member.backend.available);
+  }
+
+  /** Store an episode on the endpoint chosen by the write policy. */
+  async addEpisode(params: GraphitiEpisodeInput): Promise<void> {
+    const [primary] = this.members;
+    const target = this.writePolicy === "any"
+      ? this.members.find((member) => member.backend.available) ?? primary
+      : primary;
+    if (target !== primary) {
+      logger.info("Writing episode to failover endpoint:", target.label);
+    }
+    await target.backend.addEpisode(params);
+  }
+
+  searchFacts(params: SearchFactsParams): Promise<GraphitiFact[]> {
+    return this.read(params.signal, (backend) => backend.searchFacts(params));
+  }
+
+  searchNodes(params: SearchNodesParams): Promise<GraphitiNode[]> {
+    return this.read(params.signal, (backend) => backend.searchNodes(params));
+  }
+
+  getEpisodes(params: GetEpisodesParams): Promise<GraphitiEpisode[]> {
+    return this.read(params.signal, (backend) => backend.getEpisodes(params));
+  }
+
+  /** Probe every endpoint; true when at least one is reachable. */
+  async getStatus(signal?: AbortSignal): Promise<boolean> {
+    const statuses = await Promise.all(
+      this.members.map((member) => {
+        this.lastProbe.set(member, this.now());
+        return member.backend.getStatus(signal);
+      }),
+    );
+    return statuses.some(Boolean);
+  }
+
+  /** Clear the groups on every endpoint, since any of them may hold them. */
+  async clearGroups(groupIds: string[]): Promise<void> {
+    await Promise.all(
+      this.members.map((member) => member.backend.clearGroups?.(groupIds)),
+    );
+  }
+
+  /**
+   * Delete the episode on the endpoints holding it; fails only when no
+   * endpoint could delete it, since episode UUIDs differ per endpoint.
+   */
+  async removeEpisode(episode: GraphitiEpisode): Promise<void> {
+    const results = await Promise.allSettled(
+      this.members.map((member) => member.backend.removeEpisode?.(episode)),
+    );
+    const failures = results.filter((result) => result.status === "rejected");
+    if (failures.length === results.length && failures.length > 0) {
+      throw failures[0].reason;
+    }
+  }
+
+  private async read<T>(
+    signal: AbortSignal | undefined,
+    operation: (backend: RemoteMemoryBackend) => Promise<T[]>,
+  ): Promise<T[]> {
+    this.probeUnavailable();
+    // Available endpoints first, each group in configured order.
+    const candidates = [
+      ...this.members.filter((member) => member.backend.available),
+      ...this.members.filter((member) => !member.backend.available),
+    ];
+    let failure: unknown;
+    for (const member of candidates) {
+      if (signal?.aborted) return [];
+      try {
+        const result = await operation(member.backend);
+        // Backends resolve to empty results on failure; only an endpoint
+        // that is still available after answering is trusted to be empty.
+        if (result.length > 0 || member.backend.available) return result;
+      } catch (err) {
+        // Strict reads throw instead.
+        failure = err;
+      }
+      // The failed read counts as a probe.
+      this.lastProbe.set(member, this.now());
+      logger.warn("Graphiti endpoint unavailable; failing over", {
+        endpoint: member.label,
+      });
+    }
+    if (failure) throw failure;
+    return [];
+  }
+
+  private probeUnavailable(): void {
+    const now = this.now();
+    for (const member of this.members) {
+      if (member.backend.available) continue;
+      const last = this.lastProbe.get(member);
+      if (last !== undefined && now - last < this.probeIntervalMs) continue;
+      this.lastProbe.set(member, now);
+      member.backend.getStatus().then((ok) => {
+        if (ok) logger.info("Graphiti endpoint recovered:", member.label);
+      });
+    }
+  }
+}
@@ -0,0 +1,86 @@
+import { mkdir, open, readFile, rm, stat, utimes } from "node:fs/promises";
+import { dirname } from "node:path";
+import process from "node:process";
+import { setTimeout as delay } from "node:timers/promises";
+
+/** Locks not refreshed for this long are taken over, e.g. after PID reuse. */
+const STALE_MS = 5 * 60_000;
+const RETRY_MS = 20;
+
+/** A lock held through {@link acquireFileLock}. */
+export interface FileLock {
+  /** Mark the lock as in use, for holders that keep it for a long time. */
+  refresh(): Promise<void>;
+  release(): Promise<void>;
+}
+
+const isAbandoned = async (lockPath: string): Promise<boolean> => {
+  try {
+    const [owner, info] = await Promise.all([
+      readFile(lockPath, "utf8"),
+      stat(lockPath),
+    ]);
+    if (Date.now() - info.mtimeMs > STALE_MS) return true;
+    const pid = Number(owner);
+    if (!Number.isInteger(pid) || pid <= 0) return false;
+    process.kill(pid, 0);
+    return false;
+  } catch (err) {
+    // ESRCH: the holder died; ENOENT: released while looking.
+    return (err as { code?: string }).code === "ESRCH";
+  }
+};
+
+/**
+ * Take the lock at `lockPath`, shared by every process on the machine,
+ * unless another holder is alive; undefined then. The lock file records
+ * the holder's PID so that locks of crashed processes are taken over.
+ */
+export async function tryAcquireFileLock(
+  lockPath: string,
+): Promise<FileLock | undefined> {
+  await mkdir(dirname(lockPath), { recursive: true });
+  for (;;) {
+    try {
+      const handle = await open(lockPath, "wx");
+      try {
+        await handle.writeFile(String(process.pid), "utf8");
+      } finally {
+        await handle.close();
+      }
+      return {
+        refresh: async () => {
+          const now = new Date();
+          await utimes(lockPath, now, now);
+        },
+        release: () => rm(lockPath, { force: true }),
+      };
+    } catch (err) {
+      if ((err as { code?: string }).code !== "EEXIST") throw err;
+    }
+    if (!await isAbandoned(lockPath)) return undefined;
+    await rm(lockPath, { force: true });
+  }
+}
+
+/** Take the lock at `lockPath`, waiting while another holder is alive. */
+export async function acquireFileLock(lockPath: string): Promise<FileLock> {
+  for (;;) {
+    const lock = await tryAcquireFileLock(lockPath);
+    if (lock) return lock;
+    await delay(RETRY_MS);
+  }
+}
+
+/** Run `fn` while holding the lock at `lockPath`. */
+export async function withFileLock<T>(
+  lockPath: string,
+  fn: () => Promise<T>,
+): Promise<T> {
+  const lock = await acquireFileLock(lockPath);
+  try {
+    return await fn();
+  } finally {
+    await lock.release();
+  }
+}
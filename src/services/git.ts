@@ -0,0 +1,87 @@
+import { execFile } from "node:child_process";
+import { promisify } from "node:util";
+
+const execFileAsync = promisify(execFile);
+
+const GIT_TIMEOUT_MS = 5_000;
+
+/**
+ * Run git in `directory`; resolves to its trimmed output, or undefined when
+ * git fails or is not installed.
+ */
+export const runGit = async (
+  directory: string,
+  args: string[],
+): Promise<string | undefined> => {
+  try {
+    const { stdout } = await execFileAsync("git", ["-C", directory, ...args], {
+      timeout: GIT_TIMEOUT_MS,
+    });
+    return stdout.trim();
+  } catch {
+    return undefined;
+  }
+};
+
+/** Name of the checked-out branch; undefined when detached or not a repo. */
+export const getCurrentBranch = async (directory: string) => {
+  const branch = await runGit(directory, ["rev-parse", "--abbrev-ref", "HEAD"]);
+  return branch && branch !== "HEAD" ? branch : undefined;
+};
+
+/** Commit hash of a revision, `HEAD` by default. */
+export const getCommit = async (directory: string, revision = "HEAD") =>
+  await runGit(directory, ["rev-parse", "--verify", "--quiet", revision]) ||
+  undefined;
+
+/**
+ * Commits of the local branch and the remote-tracking branches named
+ * `branch`, local first; undefined when git fails.
+ */
+export const getBranchCommits = async (directory: string, branch: string) => {
+  const commits = await runGit(directory, [
+    "for-each-ref",
+    "--format=%(objectname)",
+    `refs/heads/${branch}`,
+    `refs/remotes/*/${branch}`,
+  ]);
+  return commits?.split("\n").filter(Boolean);
+};
+
+/** Git directory shared by all worktrees of the repository. */
+export const getRepositoryDir = async (directory: string) =>
+  await runGit(directory, [
+    "rev-parse",
+    "--path-format=absolute",
+    "--git-common-dir",
+  ]) || undefined;
+
+/**
+ * The branch `origin/HEAD` points at, else `main` or `master` when one of
+ * them exists locally.
+ */
+export const getDefaultBranch = async (directory: string) => {
+  const remoteHead = await runGit(directory, [
+    "symbolic-ref",
+    "--short",
+    "refs/remotes/origin/HEAD",
+  ]);
+  if (remoteHead) return remoteHead.replace(/^origin\//, "");
+  for (const branch of ["main", "master"]) {
+    if (await getCommit(directory, `refs/heads/${branch}`)) return branch;
+  }
+  return undefined;
+};
+
+/** The `user.email` git is configured with for `directory`. */
+export const getUserEmail = async (directory: string) =>
+  await runGit(directory, ["config", "user.email"]) || undefined;
+
+/** Whether `commit` is reachable from `revision`. */
+export const isAncestor = async (
+  directory: string,
+  commit: string,
+  revision: string,
+) =>
+  await runGit(directory, ["merge-base", "--is-ancestor", commit, revision]) !==
+    undefined;
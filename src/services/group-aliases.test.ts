@@ -0,0 +1,72 @@
+import { assertEquals } from "jsr:@std/assert@^1.0.0";
+import {
+  afterEach,
+  beforeEach,
+  describe,
+  it,
+} from "jsr:@std/testing@^1.0.0/bdd";
+import { join } from "node:path";
+import {
+  addGroupAlias,
+  AliasingMemoryBackend,
+  readGroupAliases,
+} from "./group-aliases.ts";
+import { LocalMemoryBackend } from "./local-backend.ts";
+
+describe("group aliases", () => {
+  let root: string;
+  let path: string;
+
+  beforeEach(async () => {
+    root = await Deno.makeTempDir();
+    path = join(root, "aliases", "group-aliases.json");
+  });
+
+  afterEach(async () => {
+    await Deno.remove(root, { recursive: true });
+  });
+
+  it("should record each alias of a group once", async () => {
+    assertEquals(await readGroupAliases(path), {});
+
+    await addGroupAlias("new__main", "old__main", path);
+    await addGroupAlias("new__main", "old__main", path);
+    await addGroupAlias("new__main", "older__main", path);
+    await addGroupAlias("new__main", "new__main", path);
+
+    assertEquals(await readGroupAliases(path), {
+      new__main: ["old__main", "older__main"],
+    });
+  });
+
+  it("should search former group IDs and their own aliases", async () => {
+    const local = new LocalMemoryBackend({ filePath: null });
+    await local.addEpisode({
+      name: "Cache",
+      episodeBody: "The cache uses Redis.",
+      groupId: "oldest__main",
+    });
+    const calls: Array<string[] | undefined> = [];
+    const backend = new AliasingMemoryBackend({
+      addEpisode: (params) => local.addEpisode(params),
+      getEpisodes: (params) => local.getEpisodes(params),
+      getStatus: () => local.getStatus(),
+      searchNodes: (params) => local.searchNodes(params),
+      searchFacts: (params) => {
+        calls.push(params.groupIds);
+        return local.searchFacts(params);
+      },
+    }, {
+      new__main: ["old__main"],
+      old__main: ["oldest__main", "new__main"],
+    });
+
+    const facts = await backend.searchFacts({
+      query: "cache",
+      groupIds: ["new__main"],
+    });
+
+    assertEquals(calls, [["new__main", "old__main", "oldest__main"]]);
+    assertEquals(facts.map((fact) => fact.fact), ["The cache uses Redis."]);
+  });
+});
@@ -0,0 +1,112 @@
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import { dirname, join } from "node:path";
+import process from "node:process";
+import type {
+  GraphitiEpisode,
+  GraphitiEpisodeInput,
+  GraphitiFact,
+  GraphitiNode,
+} from "../types/index.ts";
+import { getDataDir } from "../utils.ts";
+import type {
+  GetEpisodesParams,
+  MemoryBackend,
+  SearchFactsParams,
+  SearchNodesParams,
+} from "./backend.ts";
+import { logger } from "./logger.ts";
+
+/** Former group IDs, keyed by the group ID that replaced them. */
+export type GroupAliases = Record<string, string[]>;
+
+/** Default location of the group alias registry. */
+export const getDefaultGroupAliasesPath = (): string =>
+  join(getDataDir(), "group-aliases.json");
+
+/** Read the group alias registry; empty when it does not exist. */
+export async function readGroupAliases(
+  path = getDefaultGroupAliasesPath(),
+): Promise<GroupAliases> {
+  try {
+    return JSON.parse(await readFile(path, "utf8"));
+  } catch (err) {
+    if ((err as { code?: string }).code !== "ENOENT") {
+      logger.warn("Ignoring unreadable group alias registry:", err);
+    }
+    return {};
+  }
+}
+
+/** Record that `alias` is a former ID of `groupId`. */
+export async function addGroupAlias(
+  groupId: string,
+  alias: string,
+  path = getDefaultGroupAliasesPath(),
+): Promise<void> {
+  const aliases = await readGroupAliases(path);
+  const current = aliases[groupId] ?? [];
+  if (alias === groupId || current.includes(alias)) return;
+  aliases[groupId] = [...current, alias];
+  await mkdir(dirname(path), { recursive: true });
+  const tempPath = `${path}.${process.pid}.tmp`;
+  await writeFile(tempPath, JSON.stringify(aliases, null, 2), "utf8");
+  await rename(tempPath, path);
+}
+
+/**
+ * Memory backend decorator that also searches the former IDs of the groups
+ * it is asked about, so memories stored before a group was renamed keep
+ * being recalled. Aliases of aliases are followed; writes are unchanged.
+ */
+export class AliasingMemoryBackend implements MemoryBackend {
+  constructor(
+    private readonly backend: MemoryBackend,
+    private readonly aliases: GroupAliases,
+  ) {}
+
+  addEpisode(params: GraphitiEpisodeInput): Promise<void> {
+    return this.backend.addEpisode(params);
+  }
+
+  searchFacts(params: SearchFactsParams): Promise<GraphitiFact[]> {
+    return this.backend.searchFacts({
+      ...params,
+      groupIds: this.expand(params.groupIds),
+    });
+  }
+
+  searchNodes(params: SearchNodesParams): Promise<GraphitiNode[]> {
+    return this.backend.searchNodes({
+      ...params,
+      groupIds: this.expand(params.groupIds),
+    });
+  }
+
+  getEpisodes(params: GetEpisodesParams): Promise<GraphitiEpisode[]> {
+    return this.backend.getEpisodes(params);
+  }
+
+  getStatus(signal?: AbortSignal): Promise<boolean> {
+    return this.backend.getStatus(signal);
+  }
+
+  async clearGroups(groupIds: string[]): Promise<void> {
+    await this.backend.clearGroups?.(groupIds);
+  }
+
+  async removeEpisode(episode: GraphitiEpisode): Promise<void> {
+    await this.backend.removeEpisode?.(episode);
+  }
+
+  private expand(groupIds?: string[]): string[] | undefined {
+    if (!groupIds) return groupIds;
+    const expanded = new Set<string>();
+    const visit = (groupId: string) => {
+      if (expanded.has(groupId)) return;
+      expanded.add(groupId);
+      for (const alias of this.aliases[groupId] ?? []) visit(alias);
+    };
+    groupIds.forEach(visit);
+    return [...expanded];
+  }
+}
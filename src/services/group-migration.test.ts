@@ -0,0 +1,59 @@
+import { assertEquals } from "jsr:@std/assert@^1.0.0";
+import { describe, it } from "jsr:@std/testing@^1.0.0/bdd";
+import { copyGroupEpisodes } from "./group-migration.ts";
+import { LocalMemoryBackend } from "./local-backend.ts";
+
+describe("copyGroupEpisodes", () => {
+  it("should re-ingest episodes oldest first with their metadata", async () => {
+    const client = new LocalMemoryBackend({ filePath: null });
+    await client.addEpisode({
+      name: "Deploy",
+      episodeBody: "Deployments go through staging.",
+      groupId: "old__main",
+      sourceDescription: "session-snapshot",
+      referenceTime: "2026-03-01T10:00:00.000Z",
+    });
+    await client.addEpisode({
+      name: "Cache",
+      episodeBody: "The cache uses Redis.",
+      groupId: "old__main",
+      source: "message",
+      referenceTime: "2026-02-01T10:00:00.000Z",
+    });
+
+    const copied = await copyGroupEpisodes(client, {
+      from: "old__main",
+      to: "new__main",
+    });
+
+    assertEquals(copied, 2);
+    // Newest first, as ingested
+    const episodes = await client.getEpisodes({ groupId: "new__main" });
+    assertEquals(
+      episodes.map(({ name, source, sourceDescription, created_at }) => ({
+        name,
+        source,
+        sourceDescription,
+        created_at,
+      })),
+      [
+        {
+          name: "Deploy",
+          source: "text",
+          sourceDescription: "session-snapshot",
+          created_at: "2026-03-01T10:00:00.000Z",
+        },
+        {
+          name: "Cache",
+          source: "message",
+          sourceDescription: undefined,
+          created_at: "2026-02-01T10:00:00.000Z",
+        },
+      ],
+    );
+    assertEquals(
+      (await client.getEpisodes({ groupId: "old__main" })).length,
+      2,
+    );
+  });
+});
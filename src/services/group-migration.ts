@@ -0,0 +1,49 @@
+import type { GraphitiEpisodeInput } from "../types/index.ts";
+import type { MemoryBackend } from "./backend.ts";
+import { logger } from "./logger.ts";
+
+/** Options for {@link copyGroupEpisodes}. */
+export interface CopyGroupEpisodesOptions {
+  /** Group the episodes are read from. */
+  from: string;
+  /** Group the episodes are re-ingested into. */
+  to: string;
+  /** Most recent episodes copied at most. */
+  lastN?: number;
+}
+
+const EPISODE_SOURCES = ["text", "json", "message"];
+
+/**
+ * Re-ingest the episodes of one group into another, oldest first, keeping
+ * their names, sources, source descriptions and timestamps. Resolves to the
+ * number of episodes copied and throws when they cannot be read; the source
+ * group is left as it is.
+ */
+export async function copyGroupEpisodes(
+  client: MemoryBackend,
+  { from, to, lastN = 1_000 }: CopyGroupEpisodesOptions,
+): Promise<number> {
+  const episodes = await client.getEpisodes({
+    groupId: from,
+    lastN,
+    strict: true,
+  });
+  const oldestFirst = [...episodes].sort((a, b) =>
+    Date.parse(a.created_at ?? "") - Date.parse(b.created_at ?? "")
+  );
+  for (const episode of oldestFirst) {
+    await client.addEpisode({
+      name: episode.name,
+      episodeBody: episode.content,
+      groupId: to,
+      source: EPISODE_SOURCES.includes(episode.source ?? "")
+        ? episode.source as GraphitiEpisodeInput["source"]
+        : "text",
+      sourceDescription: episode.sourceDescription,
+      referenceTime: episode.created_at,
+    });
+  }
+  logger.info(`Copied ${episodes.length} episodes from ${from} to`, to);
+  return episodes.length;
+}
@@ -0,0 +1,24 @@
+import { mkdir, open } from "node:fs/promises";
+import { dirname } from "node:path";
+
+/**
+ * Durably append `record` to a JSON lines file, starting on a new line
+ * when a crash cut the last record off mid-append.
+ */
+export async function appendJsonLine(
+  path: string,
+  record: unknown,
+): Promise<void> {
+  await mkdir(dirname(path), { recursive: true });
+  const handle = await open(path, "a+");
+  try {
+    const { size } = await handle.stat();
+    const last = new Uint8Array(1);
+    if (size > 0) await handle.read(last, 0, 1, size - 1);
+    const separator = size > 0 && last[0] !== 0x0a ? "\n" : "";
+    await handle.appendFile(`${separator}${JSON.stringify(record)}\n`, "utf8");
+    await handle.sync();
+  } finally {
+    await handle.close();
+  }
+}
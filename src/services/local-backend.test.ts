@@ -0,0 +1,171 @@
+import { assertEquals } from "jsr:@std/assert@^1.0.0";
+import { describe, it } from "jsr:@std/testing@^1.0.0/bdd";
+import { join } from "node:path";
+import { LocalMemoryBackend } from "./local-backend.ts";
+
+describe("LocalMemoryBackend", () => {
+  it("should rank facts by lexical relevance within groups", async () => {
+    const backend = new LocalMemoryBackend({ filePath: null });
+    await backend.addEpisode({
+      name: "Setup",
+      episodeBody:
+        "The project uses Deno for tests.\nDeployment runs on Fly.io machines.",
+      groupId: "project",
+    });
+    await backend.addEpisode({
+      name: "Other",
+      episodeBody: "Another project also uses Deno for tests.",
+      groupId: "other",
+    });
+
+    const facts = await backend.searchFacts({
+      query: "how do we run tests?",
+      groupIds: ["project"],
+    });
+    assertEquals(facts.map((fact) => fact.fact), [
+      "The project uses Deno for tests.",
+    ]);
+    assertEquals(typeof facts[0].valid_at, "string");
+  });
+
+  it("should return no results for queries without content words", async () => {
+    const backend = new LocalMemoryBackend({ filePath: null });
+    await backend.addEpisode({ name: "A", episodeBody: "Some stored fact." });
+    assertEquals(await backend.searchFacts({ query: "the of and" }), []);
+  });
+
+  it("should return matching episodes as nodes", async () => {
+    const backend = new LocalMemoryBackend({ filePath: null });
+    await backend.addEpisode({
+      name: "Auth design",
+      episodeBody: "Tokens are rotated daily.",
+      groupId: "project",
+    });
+    const nodes = await backend.searchNodes({
+      query: "auth tokens",
+      groupIds: ["project"],
+    });
+    assertEquals(nodes.length, 1);
+    assertEquals(nodes[0].name, "Auth design");
+    assertEquals(nodes[0].summary, "Tokens are rotated daily.");
+  });
+
+  it("should return the most recent episodes of a group first", async () => {
+    let tick = 0;
+    const backend = new LocalMemoryBackend({
+      filePath: null,
+      now: () => new Date(Date.UTC(2026, 0, 1, 0, 0, tick++)),
+    });
+    for (const name of ["one", "two", "three"]) {
+      await backend.addEpisode({
+        name,
+        episodeBody: name,
+        groupId: "project",
+        sourceDescription: "session-snapshot",
+      });
+    }
+    const episodes = await backend.getEpisodes({
+      groupId: "project",
+      lastN: 2,
+    });
+    assertEquals(episodes.map((episode) => episode.name), ["three", "two"]);
+    assertEquals(episodes[0].sourceDescription, "session-snapshot");
+    assertEquals("groupId" in episodes[0], false);
+  });
+
+  it("should persist episodes across instances and cap their number", async () => {
+    const dir = await Deno.makeTempDir();
+    try {
+      const filePath = join(dir, "memory.jsonl");
+      const writer = new LocalMemoryBackend({ filePath, maxEpisodes: 2 });
+      for (const name of ["one", "two", "three"]) {
+        await writer.addEpisode({ name, episodeBody: name });
+      }
+
+      const reader = new LocalMemoryBackend({ filePath });
+      const episodes = await reader.getEpisodes({ lastN: 10 });
+      assertEquals(episodes.map((episode) => episode.name), ["three", "two"]);
+    } finally {
+      await Deno.remove(dir, { recursive: true });
+    }
+  });
+
+  it("should clear the episodes of the given groups from disk", async () => {
+    const dir = await Deno.makeTempDir();
+    try {
+      const filePath = join(dir, "memory.jsonl");
+      const backend = new LocalMemoryBackend({ filePath });
+      await backend.addEpisode({ name: "a", episodeBody: "a", groupId: "a" });
+      await backend.addEpisode({ name: "b", episodeBody: "b", groupId: "b" });
+
+      await backend.clearGroups(["a"]);
+
+      const reader = new LocalMemoryBackend({ filePath });
+      const episodes = await reader.getEpisodes({ lastN: 10 });
+      assertEquals(episodes.map((episode) => episode.name), ["b"]);
+    } finally {
+      await Deno.remove(dir, { recursive: true });
+    }
+  });
+
+  it("should append after a record cut off by a crash", async () => {
+    const dir = await Deno.makeTempDir();
+    try {
+      const filePath = join(dir, "memory.jsonl");
+      await Deno.writeTextFile(filePath, '{"uuid":"torn","na');
+      const backend = new LocalMemoryBackend({ filePath });
+      await backend.addEpisode({ name: "one", episodeBody: "one" });
+
+      const reader = new LocalMemoryBackend({ filePath });
+      const episodes = await reader.getEpisodes({ lastN: 10 });
+      assertEquals(episodes.map((episode) => episode.name), ["one"]);
+    } finally {
+      await Deno.remove(dir, { recursive: true });
+    }
+  });
+
+  it("should keep episodes added by other processes", async () => {
+    const dir = await Deno.makeTempDir();
+    try {
+      const filePath = join(dir, "memory.jsonl");
+      const first = new LocalMemoryBackend({ filePath });
+      const second = new LocalMemoryBackend({ filePath });
+      await first.addEpisode({ name: "one", episodeBody: "one", groupId: "a" });
+      await second.getEpisodes({});
+      await first.addEpisode({ name: "two", episodeBody: "two", groupId: "b" });
+      await second.clearGroups(["a"]);
+
+      const reader = new LocalMemoryBackend({ filePath });
+      const episodes = await reader.getEpisodes({ lastN: 10 });
+      assertEquals(episodes.map((episode) => episode.name), ["two"]);
+    } finally {
+      await Deno.remove(dir, { recursive: true });
+    }
+  });
+
+  it("should drop the oldest episodes in batches", async () => {
+    const backend = new LocalMemoryBackend({ filePath: null, maxEpisodes: 10 });
+    for (let i = 0; i < 11; i++) {
+      await backend.addEpisode({ name: `${i}`, episodeBody: `${i}` });
+    }
+    assertEquals((await backend.getEpisodes({ lastN: 20 })).length, 9);
+
+    await backend.addEpisode({ name: "11", episodeBody: "11" });
+    assertEquals((await backend.getEpisodes({ lastN: 20 })).length, 10);
+  });
+
+  it("should remove an episode and copies of it", async () => {
+    const backend = new LocalMemoryBackend({ filePath: null });
+    await backend.addEpisode({ name: "Note", episodeBody: "api_key=secret" });
+    await backend.addEpisode({ name: "Other", episodeBody: "Keep me" });
+
+    await backend.removeEpisode({
+      uuid: "remote-uuid",
+      name: "Note",
+      content: "api_key=secret",
+    });
+
+    const episodes = await backend.getEpisodes({ lastN: 10 });
+    assertEquals(episodes.map((episode) => episode.name), ["Other"]);
+  });
+});
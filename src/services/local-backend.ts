@@ -0,0 +1,355 @@
+import { randomUUID } from "node:crypto";
+import { mkdir, readFile, rename, stat, writeFile } from "node:fs/promises";
+import { dirname, join } from "node:path";
+import process from "node:process";
+import type {
+  GraphitiEpisode,
+  GraphitiEpisodeInput,
+  GraphitiFact,
+  GraphitiNode,
+} from "../types/index.ts";
+import { getDataDir } from "../utils.ts";
+import type {
+  GetEpisodesParams,
+  MemoryBackend,
+  SearchFactsParams,
+  SearchNodesParams,
+} from "./backend.ts";
+import { withFileLock } from "./file-lock.ts";
+import { appendJsonLine } from "./jsonl.ts";
+import { logger } from "./logger.ts";
+
+/** An episode as kept by {@link LocalMemoryBackend}. */
+interface StoredEpisode extends GraphitiEpisode {
+  /** Group the episode belongs to. */
+  groupId?: string;
+}
+
+/** Options for {@link LocalMemoryBackend}. */
+export interface LocalMemoryBackendOptions {
+  /** JSONL file episodes are persisted to; `null` keeps them in memory. */
+  filePath?: string | null;
+  /**
+   * Maximum number of episodes kept. The oldest are dropped a tenth of the
+   * maximum at a time, so the file is not rewritten on every episode.
+   */
+  maxEpisodes?: number;
+  /** Clock source, overridable for testing. */
+  now?: () => Date;
+}
+
+const STOP_WORDS = new Set([
+  "a",
+  "an",
+  "and",
+  "are",
+  "as",
+  "at",
+  "be",
+  "by",
+  "for",
+  "from",
+  "has",
+  "have",
+  "in",
+  "is",
+  "it",
+  "of",
+  "on",
+  "or",
+  "that",
+  "the",
+  "this",
+  "to",
+  "was",
+  "we",
+  "were",
+  "with",
+  "you",
+]);
+
+/** Shortest sentence treated as a fact; shorter ones are mostly noise. */
+const MIN_FACT_LENGTH = 12;
+/** Length of the episode excerpt used as a node summary. */
+const SUMMARY_LENGTH = 200;
+
+/**
+ * Resolve the default local memory location under the OpenCode data
+ * directory.
+ */
+export const getDefaultLocalStorePath = (): string =>
+  join(getDataDir(), "local-memory.jsonl");
+
+const tokenize = (text: string): string[] =>
+  text.toLowerCase()
+    .split(/[^\p{L}\p{N}_]+/u)
+    .filter((token) => token.length > 1 && !STOP_WORDS.has(token));
+
+const splitSentences = (text: string): string[] =>
+  text.split(/(?<=[.!?])\s+|\n+/)
+    .map((sentence) => sentence.trim())
+    .filter((sentence) => sentence.length >= MIN_FACT_LENGTH);
+
+/**
+ * Rank documents against a query by the summed inverse document frequency
+ * of the query terms they contain, dampened by document length.
+ */
+const rankLexically = <T>(
+  query: string,
+  documents: Array<{ item: T; text: string }>,
+  limit: number,
+): T[] => {
+  const queryTerms = new Set(tokenize(query));
+  if (queryTerms.size === 0 || documents.length === 0) return [];
+
+  const tokenized = documents.map((document) => ({
+    item: document.item,
+    tokens: new Set(tokenize(document.text)),
+  }));
+  const documentFrequency = new Map<string, number>();
+  for (const { tokens } of tokenized) {
+    for (const term of queryTerms) {
+      if (tokens.has(term)) {
+        documentFrequency.set(term, (documentFrequency.get(term) ?? 0) + 1);
+      }
+    }
+  }
+
+  return tokenized
+    .map(({ item, tokens }, index) => {
+      let score = 0;
+      for (const term of queryTerms) {
+        if (!tokens.has(term)) continue;
+        score += Math.log(1 + tokenized.length / documentFrequency.get(term)!);
+      }
+      return { item, index, score: score / Math.sqrt(tokens.size || 1) };
+    })
+    .filter((ranked) => ranked.score > 0)
+    // Prefer newer documents on ties; documents are stored oldest first.
+    .sort((a, b) => b.score - a.score || b.index - a.index)
+    .slice(0, limit)
+    .map((ranked) => ranked.item);
+};
+
+/**
+ * Memory backend that keeps episodes on local disk and answers searches
+ * lexically. Facts are the individual sentences of stored episodes and
+ * nodes are the episodes themselves, so recall keeps working without a
+ * Graphiti server, at the cost of entity extraction and semantic search.
+ *
+ * Several OpenCode processes may share the file: changes are made under a
+ * lock file, and episodes are re-read when another process changed it.
+ */
+export class LocalMemoryBackend implements MemoryBackend {
+  private episodes: StoredEpisode[] | null = null;
+  /** Size and modification time of the file when it was last read. */
+  private loadedVersion?: string;
+  private lock: Promise<unknown> = Promise.resolve();
+  private readonly filePath: string | null;
+  private readonly maxEpisodes: number;
+  private readonly now: () => Date;
+
+  constructor(options: LocalMemoryBackendOptions = {}) {
+    this.filePath = options.filePath === undefined
+      ? getDefaultLocalStorePath()
+      : options.filePath;
+    this.maxEpisodes = options.maxEpisodes ?? 2_000;
+    this.now = options.now ?? (() => new Date());
+  }
+
+  /** Store an episode locally. */
+  addEpisode(params: GraphitiEpisodeInput): Promise<void> {
+    return this.withWriteLock(async () => {
+      const episodes = await this.load();
+      const episode: StoredEpisode = {
+        uuid: randomUUID(),
+        name: params.name,
+        content: params.episodeBody,
+        source: params.source || "text",
+        created_at: params.referenceTime ?? this.now().toISOString(),
+        groupId: params.groupId,
+      };
+      if (params.sourceDescription) {
+        episode.sourceDescription = params.sourceDescription;
+      }
+      episodes.push(episode);
+      if (episodes.length > this.maxEpisodes) {
+        const batch = Math.floor(this.maxEpisodes / 10);
+        episodes.splice(0, episodes.length - this.maxEpisodes + batch);
+        await this.rewrite(episodes);
+      } else {
+        await this.append(episode);
+      }
+      logger.debug("Stored episode locally:", params.name);
+    });
+  }
+
+  /** Search sentences of stored episodes matching the query. */
+  async searchFacts(params: SearchFactsParams): Promise<GraphitiFact[]> {
+    const episodes = await this.episodesIn(params.groupIds);
+    const documents = episodes.flatMap((episode) =>
+      splitSentences(episode.content).map((sentence, index) => {
+        const fact: GraphitiFact = {
+          uuid: `${episode.uuid}:${index}`,
+          fact: sentence,
+        };
+        if (episode.created_at) fact.valid_at = episode.created_at;
+        return { item: fact, text: sentence };
+      })
+    );
+    const unique = new Map<string, { item: GraphitiFact; text: string }>();
+    for (const document of documents) unique.set(document.text, document);
+    return rankLexically(
+      params.query,
+      [...unique.values()],
+      params.maxFacts || 10,
+    );
+  }
+
+  /** Search stored episodes matching the query, returned as nodes. */
+  async searchNodes(params: SearchNodesParams): Promise<GraphitiNode[]> {
+    const episodes = await this.episodesIn(params.groupIds);
+    const documents = episodes.map((episode) => ({
+      item: {
+        uuid: episode.uuid,
+        name: episode.name,
+        summary: episode.content.slice(0, SUMMARY_LENGTH),
+        labels: ["Episode"],
+      },
+      text: `${episode.name}\n${episode.content}`,
+    }));
+    return rankLexically(params.query, documents, params.maxNodes || 10);
+  }
+
+  /** Retrieve the most recent episodes of a group, newest first. */
+  async getEpisodes(params: GetEpisodesParams): Promise<GraphitiEpisode[]> {
+    const groupIds = params.groupId ? [params.groupId] : undefined;
+    const episodes = await this.episodesIn(groupIds);
+    return episodes
+      .slice(-(params.lastN || 10))
+      .reverse()
+      .map(({ groupId: _groupId, ...episode }) => episode);
+  }
+
+  /** Delete the stored episodes of the given groups. */
+  clearGroups(groupIds: string[]): Promise<void> {
+    return this.removeWhere((episode) =>
+      episode.groupId !== undefined && groupIds.includes(episode.groupId)
+    );
+  }
+
+  /**
+   * Delete an episode, and copies of it stored under another UUID, such as
+   * the local copy of an episode Graphiti returned.
+   */
+  removeEpisode(episode: GraphitiEpisode): Promise<void> {
+    return this.removeWhere((stored) =>
+      stored.uuid === episode.uuid ||
+      (stored.name === episode.name && stored.content === episode.content)
+    );
+  }
+
+  /** The local store is always available. */
+  getStatus(): Promise<boolean> {
+    return Promise.resolve(true);
+  }
+
+  private async episodesIn(groupIds?: string[]): Promise<StoredEpisode[]> {
+    let episodes: StoredEpisode[];
+    try {
+      episodes = await this.withLock(() => this.load());
+    } catch (err) {
+      logger.error("Failed to read local memory:", err);
+      return [];
+    }
+    if (!groupIds?.length) return episodes;
+    return episodes.filter((episode) =>
+      episode.groupId !== undefined && groupIds.includes(episode.groupId)
+    );
+  }
+
+  private removeWhere(
+    predicate: (episode: StoredEpisode) => boolean,
+  ): Promise<void> {
+    return this.withWriteLock(async () => {
+      const episodes = await this.load();
+      const kept = episodes.filter((episode) => !predicate(episode));
+      if (kept.length === episodes.length) return;
+      this.episodes = kept;
+      await this.rewrite(kept);
+    });
+  }
+
+  private withLock<T>(fn: () => Promise<T>): Promise<T> {
+    const run = this.lock.then(fn, fn);
+    this.lock = run.catch(() => undefined);
+    return run;
+  }
+
+  /** Like {@link withLock}, also excluding writers in other processes. */
+  private withWriteLock<T>(fn: () => Promise<T>): Promise<T> {
+    const { filePath } = this;
+    return this.withLock(() =>
+      filePath ? withFileLock(`${filePath}.lock`, fn) : fn()
+    );
+  }
+
+  private async load(): Promise<StoredEpisode[]> {
+    if (!this.filePath) return this.episodes ??= [];
+    const version = await this.fileVersion();
+    if (this.episodes && version === this.loadedVersion) return this.episodes;
+    this.episodes = await this.read(this.filePath);
+    this.loadedVersion = version;
+    return this.episodes;
+  }
+
+  private async fileVersion(): Promise<string | undefined> {
+    try {
+      const info = await stat(this.filePath!);
+      return `${info.size}:${info.mtimeMs}`;
+    } catch (err) {
+      if ((err as { code?: string }).code === "ENOENT") return undefined;
+      throw err;
+    }
+  }
+
+  private async read(filePath: string): Promise<StoredEpisode[]> {
+    let raw: string;
+    try {
+      raw = await readFile(filePath, "utf8");
+    } catch (err) {
+      if ((err as { code?: string }).code === "ENOENT") return [];
+      throw err;
+    }
+
+    const episodes: StoredEpisode[] = [];
+    for (const line of raw.split("\n")) {
+      if (!line.trim()) continue;
+      try {
+        episodes.push(JSON.parse(line));
+      } catch {
+        // A crash mid-append can leave a torn last line; skip it.
+        logger.warn("Skipping unreadable local memory record");
+      }
+    }
+    return episodes;
+  }
+
+  private async append(episode: StoredEpisode): Promise<void> {
+    if (!this.filePath) return;
+    await appendJsonLine(this.filePath, episode);
+    this.loadedVersion = await this.fileVersion();
+  }
+
+  private async rewrite(episodes: StoredEpisode[]): Promise<void> {
+    if (!this.filePath) return;
+    await mkdir(dirname(this.filePath), { recursive: true });
+    const body = episodes
+      .map((episode) => `${JSON.stringify(episode)}\n`)
+      .join("");
+    const tempPath = `${this.filePath}.${process.pid}.tmp`;
+    await writeFile(tempPath, body, "utf8");
+    await rename(tempPath, this.filePath);
+    this.loadedVersion = await this.fileVersion();
+  }
+}
@@ -0,0 +1,43 @@
+import { assertEquals } from "jsr:@std/assert@^1.0.0";
+import { describe, it } from "jsr:@std/testing@^1.0.0/bdd";
+import { extractPreferences } from "./preferences.ts";
+
+describe("extractPreferences", () => {
+  it("should keep preference-like sentences of the user", () => {
+    assertEquals(
+      extractPreferences([
+        "User: Add a retry to the client. I prefer early returns over nesting.",
+        "User: Never use default exports.\nThe tests live next to the code.",
+        "User: Please don't add comments to obvious code!",
+        "User: From now on, write commit messages in the imperative.",
+      ]),
+      [
+        "I prefer early returns over nesting.",
+        "Never use default exports.",
+        "Please don't add comments to obvious code!",
+        "From now on, write commit messages in the imperative.",
+      ],
+    );
+  });
+
+  it("should ignore assistant messages and project facts", () => {
+    assertEquals(
+      extractPreferences([
+        "User: The API always returns JSON and uses Redis for caching.",
+        "Assistant: I prefer to check the logs first.",
+      ]),
+      [],
+    );
+  });
+
+  it("should keep each preference once", () => {
+    assertEquals(
+      extractPreferences([
+        "User: I like to use tabs.",
+        "User: Thanks.",
+        "User: I like to use tabs.",
+      ]),
+      ["I like to use tabs."],
+    );
+  });
+});
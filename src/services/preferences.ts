@@ -0,0 +1,32 @@
+/** Statements of how the user likes to work, regardless of the project. */
+const PREFERENCE_PATTERNS = [
+  /\b(?:I|we)\s+(?:always\s+|usually\s+|generally\s+|really\s+)?(?:prefer|like to|want you to|hate|dislike|don't like|do not like)\b/i,
+  /\bmy\s+(?:preference|preferred|style|convention|default)\b/i,
+  /^(?:please\s+)?(?:always|never)\b/i,
+  /^(?:please\s+)?(?:don't|do not)\s+(?:ever\s+)?(?:use|add|write|call|put)\b/i,
+  /\b(?:from now on|in the future|going forward)\b/i,
+];
+
+/** Longest sentence kept as a preference. */
+const MAX_PREFERENCE_LENGTH = 300;
+
+/**
+ * Pick the preference-like sentences out of buffered `User:` messages, e.g.
+ * "I prefer early returns" or "Never use default exports".
+ */
+export const extractPreferences = (messages: string[]): string[] => {
+  const sentences = messages
+    .filter((message) => message.startsWith("User:"))
+    .flatMap((message) =>
+      message
+        .replace(/^User:\s*/, "")
+        .split(/(?<=[.!?])\s+|\n+/)
+        .map((sentence) => sentence.trim())
+    )
+    .filter((sentence) =>
+      sentence.length > 0 &&
+      sentence.length <= MAX_PREFERENCE_LENGTH &&
+      PREFERENCE_PATTERNS.some((pattern) => pattern.test(sentence))
+    );
+  return Array.from(new Set(sentences));
+};
@@ -0,0 +1,75 @@
+import { createHash } from "node:crypto";
+import type { GroupIdStrategy } from "../types/index.ts";
+import { runGit } from "./git.ts";
+import { logger } from "./logger.ts";
+
+const shortHash = (value: string) =>
+  createHash("sha256").update(value).digest("hex").slice(0, 8);
+
+/**
+ * Reduce a git remote URL to `host/path`, so that the SSH, HTTPS and
+ * credential-bearing forms of the same repository compare equal.
+ */
+export const normalizeRemoteUrl = (url: string): string => {
+  const trimmed = url.trim();
+  let host = "";
+  let path = trimmed;
+  const scp = /^(?:[^@/]+@)?([^:/]+):(?!\/\/)(.*)$/.exec(trimmed);
+  if (/^[a-z][a-z0-9+.-]*:\/\//i.test(trimmed)) {
+    try {
+      const parsed = new URL(trimmed);
+      host = parsed.hostname;
+      path = decodeURIComponent(parsed.pathname);
+    } catch {
+      // keep the raw URL as the path
+    }
+  } else if (scp) {
+    host = scp[1];
+    path = scp[2];
+  }
+  path = path.replace(/\/+$/, "").replace(/\.git$/, "").replace(/^\/+/, "");
+  return (host ? `${host}/${path}` : path).toLowerCase();
+};
+
+/** Remote URL of `origin`, or of the first remote when there is none. */
+const getRemoteUrl = async (directory: string) => {
+  const remotes = (await runGit(directory, ["remote"]))?.split("\n") ?? [];
+  const remote = remotes.includes("origin") ? "origin" : remotes[0];
+  return remote
+    ? await runGit(directory, ["remote", "get-url", remote])
+    : undefined;
+};
+
+/** First root commit of the history, stable across clones without a remote. */
+const getRootCommit = async (directory: string) =>
+  (await runGit(directory, ["rev-list", "--max-parents=0", "HEAD"]))
+    ?.split("\n")
+    .sort()[0];
+
+/**
+ * Resolve the project name used in group IDs. The `git` strategy derives
+ * it from the normalized remote URL, falling back to the root commit and
+ * finally to the directory name, so memory follows the repository rather
+ * than the folder it is checked out in.
+ */
+export async function resolveProjectName(
+  directory: string,
+  strategy: GroupIdStrategy = "directory",
+): Promise<string | undefined> {
+  if (strategy !== "git") return undefined;
+
+  const remoteUrl = await getRemoteUrl(directory);
+  if (remoteUrl) {
+    const normalized = normalizeRemoteUrl(remoteUrl);
+    const repoName = normalized.split("/").filter(Boolean).at(-1) || "repo";
+    return `${repoName}-${shortHash(normalized)}`;
+  }
+  const rootCommit = await getRootCommit(directory);
+  if (rootCommit) return `repo-${rootCommit.slice(0, 12)}`;
+
+  logger.warn(
+    "No git remote or commit found; deriving group IDs from the directory",
+    directory,
+  );
+  return undefined;
+}
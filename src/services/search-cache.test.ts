@@ -0,0 +1,148 @@
+import { assertEquals } from "jsr:@std/assert@^1.0.0";
+import { describe, it } from "jsr:@std/testing@^1.0.0/bdd";
+import type { GraphitiEpisodeInput, GraphitiFact } from "../types/index.ts";
+import type { MemoryBackend, SearchFactsParams } from "./backend.ts";
+import { CachingMemoryBackend } from "./search-cache.ts";
+
+class CountingBackend implements MemoryBackend {
+  searches: SearchFactsParams[] = [];
+  facts: GraphitiFact[] = [{ uuid: "f1", fact: "Fact" }];
+  pending: Array<() => void> = [];
+  hold = false;
+
+  addEpisode(_params: GraphitiEpisodeInput) {
+    return Promise.resolve();
+  }
+  async searchFacts(params: SearchFactsParams) {
+    this.searches.push(params);
+    if (this.hold) {
+      await new Promise<void>((resolve) => this.pending.push(resolve));
+    }
+    return [...this.facts];
+  }
+  searchNodes() {
+    return Promise.resolve([]);
+  }
+  getEpisodes() {
+    return Promise.resolve([]);
+  }
+  getStatus() {
+    return Promise.resolve(true);
+  }
+  release() {
+    for (const resolve of this.pending.splice(0)) resolve();
+  }
+}
+
+describe("CachingMemoryBackend", () => {
+  const query = { query: "deploy", groupIds: ["g1"], maxFacts: 10 };
+
+  it("should serve repeated searches from the cache until they expire", async () => {
+    let now = 0;
+    const backend = new CountingBackend();
+    const cache = new CachingMemoryBackend(backend, {
+      ttlMs: 1_000,
+      now: () => now,
+    });
+
+    await cache.searchFacts(query);
+    await cache.searchFacts({ ...query, groupIds: ["g1"] });
+    assertEquals(backend.searches.length, 1);
+
+    await cache.searchFacts({ ...query, maxFacts: 5 });
+    assertEquals(backend.searches.length, 2);
+
+    now = 1_000;
+    await cache.searchFacts(query);
+    assertEquals(backend.searches.length, 3);
+  });
+
+  it("should not cache empty results", async () => {
+    const backend = new CountingBackend();
+    backend.facts = [];
+    const cache = new CachingMemoryBackend(backend);
+
+    await cache.searchFacts(query);
+    await cache.searchFacts(query);
+    assertEquals(backend.searches.length, 2);
+  });
+
+  it("should invalidate results of a group on ingest", async () => {
+    const backend = new CountingBackend();
+    const cache = new CachingMemoryBackend(backend);
+    await cache.searchFacts(query);
+    await cache.searchFacts({ ...query, groupIds: ["g2"] });
+
+    await cache.addEpisode({ name: "N", episodeBody: "B", groupId: "g1" });
+    await cache.searchFacts(query);
+    await cache.searchFacts({ ...query, groupIds: ["g2"] });
+    assertEquals(backend.searches.map((search) => search.groupIds), [
+      ["g1"],
+      ["g2"],
+      ["g1"],
+    ]);
+  });
+
+  it("should evict the least recently used result", async () => {
+    const backend = new CountingBackend();
+    const cache = new CachingMemoryBackend(backend, { maxEntries: 2 });
+    await cache.searchFacts({ query: "a" });
+    await cache.searchFacts({ query: "b" });
+    await cache.searchFacts({ query: "a" });
+    await cache.searchFacts({ query: "c" });
+
+    await cache.searchFacts({ query: "a" });
+    await cache.searchFacts({ query: "b" });
+    assertEquals(backend.searches.map((search) => search.query), [
+      "a",
+      "b",
+      "c",
+      "b",
+    ]);
+  });
+
+  it("should coalesce identical concurrent searches", async () => {
+    const backend = new CountingBackend();
+    backend.hold = true;
+    const cache = new CachingMemoryBackend(backend);
+
+    const first = cache.searchFacts(query);
+    const second = cache.searchFacts(query);
+    await Promise.resolve();
+    backend.release();
+
+    assertEquals(await first, await second);
+    assertEquals(backend.searches.length, 1);
+  });
+
+  it("should release an aborted caller without cancelling the shared search", async () => {
+    const backend = new CountingBackend();
+    backend.hold = true;
+    const cache = new CachingMemoryBackend(backend);
+    const controller = new AbortController();
+
+    const aborted = cache.searchFacts({ ...query, signal: controller.signal });
+    const other = cache.searchFacts(query);
+    controller.abort();
+    assertEquals(await aborted, []);
+
+    backend.release();
+    assertEquals((await other).length, 1);
+    assertEquals(backend.searches[0].signal, undefined);
+  });
+
+  it("should not cache results of a search that raced an ingest", async () => {
+    const backend = new CountingBackend();
+    backend.hold = true;
+    const cache = new CachingMemoryBackend(backend);
+
+    const search = cache.searchFacts(query);
+    await cache.addEpisode({ name: "N", episodeBody: "B", groupId: "g1" });
+    backend.release();
+    await search;
+
+    backend.hold = false;
+    await cache.searchFacts(query);
+    assertEquals(backend.searches.length, 2);
+  });
+});
@@ -0,0 +1,204 @@
+import type {
+  GraphitiEpisode,
+  GraphitiEpisodeInput,
+  GraphitiFact,
+  GraphitiNode,
+} from "../types/index.ts";
+import type {
+  GetEpisodesParams,
+  MemoryBackend,
+  SearchFactsParams,
+  SearchNodesParams,
+} from "./backend.ts";
+import { logger } from "./logger.ts";
+
+/** Tuning options for {@link CachingMemoryBackend}. */
+export interface SearchCacheOptions {
+  /** How long a result is served from the cache, in milliseconds. */
+  ttlMs?: number;
+  /** Maximum number of cached results; least recently used are evicted. */
+  maxEntries?: number;
+  /** Clock source, overridable for testing. */
+  now?: () => number;
+}
+
+interface CacheEntry {
+  value: unknown[];
+  expiresAt: number;
+  /** Groups the result was read from; empty for unscoped reads. */
+  groupIds: string[];
+}
+
+/** Resolve with `[]` as soon as `signal` aborts, leaving `promise` running. */
+const raceAbort = <T>(
+  promise: Promise<T[]>,
+  signal?: AbortSignal,
+): Promise<T[]> => {
+  if (!signal) return promise;
+  if (signal.aborted) return Promise.resolve([]);
+  return new Promise((resolve, reject) => {
+    const onAbort = () => resolve([]);
+    signal.addEventListener("abort", onAbort, { once: true });
+    promise.then(resolve, reject).finally(() =>
+      signal.removeEventListener("abort", onAbort)
+    );
+  });
+};
+
+/**
+ * Memory backend decorator that caches search results for a short time,
+ * coalesces identical concurrent requests, and drops cached results of a
+ * group whenever an episode is ingested into it.
+ *
+ * Empty results are never cached since backends also return them on
+ * failure. A caller's abort signal only releases that caller; the shared
+ * request keeps running so that other callers and the cache still get its
+ * result.
+ */
+export class CachingMemoryBackend implements MemoryBackend {
+  private readonly entries = new Map<string, CacheEntry>();
+  private readonly inFlight = new Map<string, Promise<unknown[]>>();
+  /**
+   * Ingest counters, overall and per group (`""` for unscoped ingests),
+   * used to discard results of requests that raced an ingest.
+   */
+  private ingests = 0;
+  private readonly generations = new Map<string, number>();
+  private readonly ttlMs: number;
+  private readonly maxEntries: number;
+  private readonly now: () => number;
+
+  constructor(
+    private readonly backend: MemoryBackend,
+    options: SearchCacheOptions = {},
+  ) {
+    this.ttlMs = options.ttlMs ?? 30_000;
+    this.maxEntries = options.maxEntries ?? 200;
+    this.now = options.now ?? Date.now;
+  }
+
+  async addEpisode(params: GraphitiEpisodeInput): Promise<void> {
+    try {
+      await this.backend.addEpisode(params);
+    } finally {
+      this.invalidate(params.groupId);
+    }
+  }
+
+  searchFacts(params: SearchFactsParams): Promise<GraphitiFact[]> {
+    return this.cached(
+      ["searchFacts", params.query, params.maxFacts],
+      params.groupIds,
+      params.signal,
+      () => this.backend.searchFacts({ ...params, signal: undefined }),
+    );
+  }
+
+  searchNodes(params: SearchNodesParams): Promise<GraphitiNode[]> {
+    return this.cached(
+      ["searchNodes", params.query, params.maxNodes],
+      params.groupIds,
+      params.signal,
+      () => this.backend.searchNodes({ ...params, signal: undefined }),
+    );
+  }
+
+  getEpisodes(params: GetEpisodesParams): Promise<GraphitiEpisode[]> {
+    // Cached results may stem from failed reads.
+    if (params.strict) return this.backend.getEpisodes(params);
+    return this.cached(
+      ["getEpisodes", "", params.lastN],
+      params.groupId ? [params.groupId] : undefined,
+      params.signal,
+      () => this.backend.getEpisodes({ ...params, signal: undefined }),
+    );
+  }
+
+  getStatus(signal?: AbortSignal): Promise<boolean> {
+    return this.backend.getStatus(signal);
+  }
+
+  async clearGroups(groupIds: string[]): Promise<void> {
+    try {
+      await this.backend.clearGroups?.(groupIds);
+    } finally {
+      for (const groupId of groupIds) this.invalidate(groupId);
+    }
+  }
+
+  async removeEpisode(episode: GraphitiEpisode): Promise<void> {
+    try {
+      await this.backend.removeEpisode?.(episode);
+    } finally {
+      // The episode's group is unknown; drop every cached result.
+      this.invalidate();
+    }
+  }
+
+  private cached<T>(
+    [operation, query, limit]: [string, string, number | undefined],
+    groupIds: string[] | undefined,
+    signal: AbortSignal | undefined,
+    load: () => Promise<T[]>,
+  ): Promise<T[]> {
+    const groups = [...(groupIds ?? [])].sort();
+    const key = JSON.stringify([operation, query, groups, limit ?? null]);
+
+    const entry = this.entries.get(key);
+    if (entry && entry.expiresAt > this.now()) {
+      // Re-insert to mark the entry as most recently used.
+      this.entries.delete(key);
+      this.entries.set(key, entry);
+      logger.debug("Search cache hit:", operation);
+      return Promise.resolve(entry.value as T[]);
+    }
+    if (entry) this.entries.delete(key);
+
+    let request = this.inFlight.get(key) as Promise<T[]> | undefined;
+    if (request) {
+      logger.debug("Coalescing search request:", operation);
+    } else {
+      const generation = this.generationOf(groups);
+      request = load()
+        .then((value) => {
+          if (value.length > 0 && this.generationOf(groups) === generation) {
+            this.store(key, { value, groupIds: groups });
+          }
+          return value;
+        })
+        .finally(() => this.inFlight.delete(key));
+      this.inFlight.set(key, request);
+    }
+    return raceAbort(request, signal);
+  }
+
+  private store(key: string, entry: Omit<CacheEntry, "expiresAt">): void {
+    this.entries.set(key, { ...entry, expiresAt: this.now() + this.ttlMs });
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+    }
+  }
+
+  /** Drop cached results that may include the given group. */
+  private invalidate(groupId?: string): void {
+    const key = groupId ?? "";
+    this.ingests += 1;
+    this.generations.set(key, (this.generations.get(key) ?? 0) + 1);
+    for (const [cacheKey, entry] of this.entries) {
+      if (
+        !groupId || entry.groupIds.length === 0 ||
+        entry.groupIds.includes(groupId)
+      ) {
+        this.entries.delete(cacheKey);
+      }
+    }
+  }
+
+  private generationOf(groupIds: string[]): string {
+    if (groupIds.length === 0) return String(this.ingests);
+    return [...groupIds, ""]
+      .map((groupId) => this.generations.get(groupId) ?? 0)
+      .join(",");
+  }
+}
@@ -0,0 +1,105 @@
+import { assertEquals, assertStrictEquals } from "jsr:@std/assert@^1.0.0";
+import { describe, it } from "jsr:@std/testing@^1.0.0/bdd";
+import {
+  createHeuristicTokenCounter,
+  resolveTokenCounter,
+  selectEncoding,
+  truncateToTokens,
+} from "./tokenizer.ts";
+
+describe("tokenizer", () => {
+  describe("createHeuristicTokenCounter", () => {
+    it("should round partial tokens up", () => {
+      const counter = createHeuristicTokenCounter(4);
+      assertStrictEquals(counter.count(""), 0);
+      assertStrictEquals(counter.count("abcd"), 1);
+      assertStrictEquals(counter.count("abcde"), 2);
+    });
+  });
+
+  describe("selectEncoding", () => {
+    it("should approximate known model families", () => {
+      const select = (providerID: string, modelID: string) =>
+        selectEncoding({ providerID, modelID });
+      assertEquals(select("openai", "gpt-4o-mini"), "o200k_base");
+      assertEquals(select("openai", "o3"), "o200k_base");
+      assertEquals(select("azure", "gpt-4-turbo"), "cl100k_base");
+      assertEquals(select("anthropic", "claude-sonnet-4-5"), "cl100k_base");
+      assertEquals(
+        select("openrouter", "anthropic/claude-opus-4"),
+        "cl100k_base",
+      );
+      assertEquals(select("google", "gemini-2.5-pro"), "o200k_base");
+    });
+
+    it("should leave unknown families and sessions without a model", () => {
+      assertEquals(
+        selectEncoding({ providerID: "ollama", modelID: "llama3" }),
+        undefined,
+      );
+      assertEquals(selectEncoding(undefined), undefined);
+    });
+  });
+
+  describe("resolveTokenCounter", () => {
+    const model = { providerID: "openai", modelID: "gpt-4o" };
+
+    it("should count with the encoding of the model", async () => {
+      const counter = await resolveTokenCounter(model, {
+        tokenizer: "auto",
+        charsPerToken: 4,
+      });
+      assertStrictEquals(counter.name, "o200k_base");
+      assertStrictEquals(counter.count("hello world"), 2);
+    });
+
+    it("should count special tokens as plain text", async () => {
+      const counter = await resolveTokenCounter(model, {
+        tokenizer: "cl100k_base",
+        charsPerToken: 4,
+      });
+      assertStrictEquals(counter.name, "cl100k_base");
+      assertStrictEquals(counter.count("<|endoftext|>") > 1, true);
+    });
+
+    it("should fall back to the heuristic", async () => {
+      const unknown = await resolveTokenCounter(
+        { providerID: "ollama", modelID: "llama3" },
+        { tokenizer: "auto", charsPerToken: 4 },
+      );
+      assertStrictEquals(unknown.name, "heuristic");
+      const configured = await resolveTokenCounter(model, {
+        tokenizer: "heuristic",
+        charsPerToken: 2,
+      });
+      assertStrictEquals(configured.name, "heuristic");
+      assertStrictEquals(configured.count("hello world"), 6);
+    });
+  });
+
+  describe("truncateToTokens", () => {
+    const counter = createHeuristicTokenCounter(4);
+
+    it("should keep text within the budget", () => {
+      assertStrictEquals(truncateToTokens("short", 10, counter), "short");
+    });
+
+    it("should cut text to the longest prefix within the budget", () => {
+      assertStrictEquals(
+        truncateToTokens("a".repeat(100), 10, counter),
+        "a".repeat(40),
+      );
+      assertStrictEquals(truncateToTokens("text", 0, counter), "");
+    });
+
+    it("should cut by the tokens of an encoding", async () => {
+      const encoding = await resolveTokenCounter(
+        { providerID: "openai", modelID: "gpt-4o" },
+        { tokenizer: "auto", charsPerToken: 4 },
+      );
+      const text = " word".repeat(100);
+      const truncated = truncateToTokens(text, 10, encoding);
+      assertStrictEquals(truncated, " word".repeat(10));
+    });
+  });
+});
@@ -0,0 +1,116 @@
+import type {
+  GraphitiBudgetConfig,
+  GraphitiTokenizerEncoding,
+} from "../types/index.ts";
+import { logger } from "./logger.ts";
+
+/** Counts the tokens a model would spend on a text. */
+export interface TokenCounter {
+  /** Encoding used, or `heuristic` for the characters-per-token estimate. */
+  readonly name: string;
+  count(text: string): number;
+}
+
+/** Model of a session, as reported by OpenCode. */
+export interface ModelRef {
+  providerID: string;
+  modelID: string;
+}
+
+/** Estimates tokens from the text length. */
+export const createHeuristicTokenCounter = (
+  charsPerToken: number,
+): TokenCounter => ({
+  name: "heuristic",
+  count: (text) => Math.ceil(text.length / charsPerToken),
+});
+
+// Loaded on first use; each encoding's rank table is several megabytes.
+const ENCODING_LOADERS: Record<
+  GraphitiTokenizerEncoding,
+  () => Promise<{ countTokens: (text: string, options: object) => number }>
+> = {
+  o200k_base: () => import("gpt-tokenizer/encoding/o200k_base"),
+  cl100k_base: () => import("gpt-tokenizer/encoding/cl100k_base"),
+};
+
+/**
+ * Encodings approximating model families, matched against
+ * `provider/model`. Anthropic and Google do not publish their tokenizers;
+ * the closest bundled encodings stand in for them.
+ */
+const MODEL_ENCODINGS: [RegExp, GraphitiTokenizerEncoding][] = [
+  [/gpt-4o|gpt-4\.\d|gpt-5|gpt-oss|chatgpt|\bo\d\b/, "o200k_base"],
+  [/gpt-4|gpt-3\.5/, "cl100k_base"],
+  [/^openai\//, "o200k_base"],
+  [/claude|^anthropic\//, "cl100k_base"],
+  [/gemini|gemma|^google\//, "o200k_base"],
+];
+
+const encodingCache = new Map<
+  GraphitiTokenizerEncoding,
+  Promise<TokenCounter | undefined>
+>();
+
+/** Bundled encoding approximating `model`; undefined for unknown families. */
+export function selectEncoding(
+  model?: ModelRef,
+): GraphitiTokenizerEncoding | undefined {
+  if (!model) return undefined;
+  const key = `${model.providerID}/${model.modelID}`.toLowerCase();
+  return MODEL_ENCODINGS.find(([pattern]) => pattern.test(key))?.[1];
+}
+
+const loadEncoding = (encoding: GraphitiTokenizerEncoding) => {
+  let counter = encodingCache.get(encoding);
+  if (!counter) {
+    counter = ENCODING_LOADERS[encoding]()
+      .then(({ countTokens }): TokenCounter => ({
+        name: encoding,
+        // Special tokens in memories are plain text to the model.
+        count: (text) => countTokens(text, { disallowedSpecial: new Set() }),
+      }))
+      .catch((err) => {
+        logger.warn(`Failed to load the ${encoding} tokenizer`, err);
+        return undefined;
+      });
+    encodingCache.set(encoding, counter);
+  }
+  return counter;
+};
+
+/**
+ * Token counter for `model` according to `budget.tokenizer`: the configured
+ * encoding, the one approximating the model's family with `auto`, or the
+ * characters-per-token heuristic when there is none or it fails to load.
+ */
+export async function resolveTokenCounter(
+  model: ModelRef | undefined,
+  budget: Pick<GraphitiBudgetConfig, "tokenizer" | "charsPerToken">,
+): Promise<TokenCounter> {
+  const encoding = budget.tokenizer === "auto"
+    ? selectEncoding(model)
+    : budget.tokenizer === "heuristic"
+    ? undefined
+    : budget.tokenizer;
+  const counter = encoding && await loadEncoding(encoding);
+  return counter || createHeuristicTokenCounter(budget.charsPerToken);
+}
+
+/** Longest prefix of `text` within `maxTokens` according to `counter`. */
+export function truncateToTokens(
+  text: string,
+  maxTokens: number,
+  counter: TokenCounter,
+): string {
+  if (maxTokens <= 0) return "";
+  if (counter.count(text) <= maxTokens) return text;
+  let low = 0;
+  let high = text.length;
+  while (low < high) {
+    const middle = Math.ceil((low + high) / 2);
+    if (counter.count(text.slice(0, middle)) <= maxTokens) low = middle;
+    else high = middle - 1;
+  }
+  return text.slice(0, low);
+}
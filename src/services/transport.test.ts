@@ -0,0 +1,154 @@
+import {
+  assertEquals,
+  assertInstanceOf,
+  assertStrictEquals,
+  assertThrows,
+} from "jsr:@std/assert@^1.0.0";
+import { describe, it } from "jsr:@std/testing@^1.0.0/bdd";
+import { SSEClientTransport } from "@modelcontextprotocol/sdk/client/sse.js";
+import { StdioClientTransport } from "@modelcontextprotocol/sdk/client/stdio.js";
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import { GraphitiClient } from "./client.ts";
+import {
+  createTransport,
+  describeTransport,
+  resolveHeaders,
+} from "./transport.ts";
+
+describe("transport", () => {
+  describe("createTransport", () => {
+    it("should create a Streamable HTTP transport for http", () => {
+      const transport = createTransport({
+        type: "http",
+        endpoint: "http://localhost:8000/mcp",
+      });
+      assertInstanceOf(transport, StreamableHTTPClientTransport);
+    });
+
+    it("should create an SSE transport for sse", () => {
+      const transport = createTransport({
+        type: "sse",
+        endpoint: "http://localhost:8000/sse",
+      });
+      assertInstanceOf(transport, SSEClientTransport);
+    });
+
+    it("should create a stdio transport for stdio", () => {
+      const transport = createTransport({
+        type: "stdio",
+        endpoint: "http://localhost:8000/mcp",
+        stdio: { command: "graphiti-mcp", args: ["--transport", "stdio"] },
+      });
+      assertInstanceOf(transport, StdioClientTransport);
+    });
+
+    it("should reject stdio without a command", () => {
+      assertThrows(
+        () => createTransport({ type: "stdio", endpoint: "" }),
+        Error,
+        "stdio.command",
+      );
+    });
+  });
+
+  describe("describeTransport", () => {
+    it("should describe URL transports by endpoint", () => {
+      assertStrictEquals(
+        describeTransport({ type: "sse", endpoint: "http://host/sse" }),
+        "http://host/sse (sse)",
+      );
+    });
+
+    it("should describe stdio transports by command line", () => {
+      assertStrictEquals(
+        describeTransport({
+          type: "stdio",
+          endpoint: "",
+          stdio: { command: "uv", args: ["run", "main.py"] },
+        }),
+        "`uv run main.py` (stdio)",
+      );
+    });
+  });
+
+  describe("GraphitiClient over stdio", () => {
+    it("should report a failed connection when the server exits", async () => {
+      const client = new GraphitiClient("", {
+        transport: "stdio",
+        stdio: { command: Deno.execPath(), args: ["eval", ""] },
+        timeouts: { status: 2_000 },
+      });
+      assertStrictEquals(await client.connect(), false);
+      assertStrictEquals(client.health, "degraded");
+    });
+  });
+
+  describe("resolveHeaders", () => {
+    it("should pass static headers through", () => {
+      assertEquals(resolveHeaders({ headers: { "X-Team": "core" } }), {
+        "X-Team": "core",
+      });
+    });
+
+    it("should read a bearer token from the environment", () => {
+      Deno.env.set("GRAPHITI_TEST_TOKEN", " secret ");
+      try {
+        assertEquals(
+          resolveHeaders({ auth: { bearerTokenEnv: "GRAPHITI_TEST_TOKEN" } }),
+          { Authorization: "Bearer secret" },
+        );
+      } finally {
+        Deno.env.delete("GRAPHITI_TEST_TOKEN");
+      }
+    });
+
+    it("should read a bearer token from a file", async () => {
+      const path = await Deno.makeTempFile();
+      try {
+        await Deno.writeTextFile(path, "file-token\n");
+        assertEquals(
+          resolveHeaders({
+            headers: { "X-Team": "core" },
+            auth: { bearerTokenFile: path },
+          }),
+          { "X-Team": "core", Authorization: "Bearer file-token" },
+        );
+      } finally {
+        await Deno.remove(path);
+      }
+    });
+
+    it("should reject a missing token variable", () => {
+      assertThrows(
+        () => resolveHeaders({ auth: { bearerTokenEnv: "GRAPHITI_UNSET" } }),
+        Error,
+        "GRAPHITI_UNSET",
+      );
+    });
+  });
+
+  describe("GraphitiClient over http", () => {
+    it("should send auth headers to the endpoint", async () => {
+      const received: Array<string | null> = [];
+      const server = Deno.serve(
+        { port: 0, hostname: "127.0.0.1", onListen: () => {} },
+        (request) => {
+          received.push(request.headers.get("authorization"));
+          return new Response("unavailable", { status: 503 });
+        },
+      );
+      Deno.env.set("GRAPHITI_TEST_TOKEN", "secret");
+      try {
+        const client = new GraphitiClient(
+          `http://127.0.0.1:${server.addr.port}/mcp`,
+          { auth: { bearerTokenEnv: "GRAPHITI_TEST_TOKEN" } },
+        );
+        assertStrictEquals(await client.connect(), false);
+        assertEquals(received.at(0), "Bearer secret");
+      } finally {
+        Deno.env.delete("GRAPHITI_TEST_TOKEN");
+        await server.shutdown();
+      }
+    });
+  });
+});
@@ -0,0 +1,131 @@
+import { SSEClientTransport } from "@modelcontextprotocol/sdk/client/sse.js";
+import {
+  getDefaultEnvironment,
+  StdioClientTransport,
+} from "@modelcontextprotocol/sdk/client/stdio.js";
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import type {
+  FetchLike,
+  Transport,
+} from "@modelcontextprotocol/sdk/shared/transport.js";
+import { readFileSync } from "node:fs";
+import process from "node:process";
+import type {
+  GraphitiAuthConfig,
+  GraphitiStdioConfig,
+  GraphitiTlsConfig,
+  GraphitiTransport,
+} from "../types/index.ts";
+import { logger } from "./logger.ts";
+
+/** Settings needed to build an MCP transport to the Graphiti server. */
+export interface TransportConfig {
+  /** Transport kind. */
+  type: GraphitiTransport;
+  /** Server URL for the `http` and `sse` transports. */
+  endpoint: string;
+  /** Server process for the `stdio` transport. */
+  stdio?: GraphitiStdioConfig;
+  /** Static headers for the `http` and `sse` transports. */
+  headers?: Record<string, string>;
+  /** Bearer token source for the `http` and `sse` transports. */
+  auth?: GraphitiAuthConfig;
+  /** TLS settings for the `http` and `sse` transports. */
+  tls?: GraphitiTlsConfig;
+}
+
+/**
+ * Describe a transport target for log messages.
+ */
+export const describeTransport = (config: TransportConfig): string => {
+  if (config.type !== "stdio") return `${config.endpoint} (${config.type})`;
+  const command = [config.stdio?.command, ...(config.stdio?.args ?? [])]
+    .filter(Boolean)
+    .join(" ");
+  return `\`${command}\` (stdio)`;
+};
+
+/**
+ * Create a fresh MCP transport for the configured Graphiti server.
+ * The stdio transport spawns the server process when it is started.
+ */
+export const createTransport = (config: TransportConfig): Transport => {
+  if (config.type === "stdio") return createStdioTransport(config.stdio);
+
+  const options = {
+    requestInit: { headers: resolveHeaders(config) },
+    fetch: createTlsFetch(config.tls),
+  };
+  const url = new URL(config.endpoint);
+  return config.type === "sse"
+    ? new SSEClientTransport(url, options)
+    : new StreamableHTTPClientTransport(url, options);
+};
+
+/**
+ * Merge static headers with the configured bearer token. Tokens are read
+ * on every call so a rotated token is picked up on the next reconnect.
+ */
+export const resolveHeaders = (
+  config: Pick<TransportConfig, "headers" | "auth">,
+): Record<string, string> => {
+  const headers = { ...config.headers };
+  const token = readBearerToken(config.auth);
+  if (token) headers["Authorization"] = `Bearer ${token}`;
+  return headers;
+};
+
+const readBearerToken = (auth?: GraphitiAuthConfig): string | undefined => {
+  if (auth?.bearerTokenEnv) {
+    const token = process.env[auth.bearerTokenEnv]?.trim();
+    if (!token) {
+      throw new Error(
+        `Bearer token variable ${auth.bearerTokenEnv} is not set`,
+      );
+    }
+    return token;
+  }
+  if (auth?.bearerTokenFile) {
+    const token = readFileSync(auth.bearerTokenFile, "utf8").trim();
+    if (!token) {
+      throw new Error(`Bearer token file ${auth.bearerTokenFile} is empty`);
+    }
+    return token;
+  }
+  return undefined;
+};
+
+/**
+ * Build a fetch that applies custom TLS settings. Relies on the `tls`
+ * request option of Bun, the runtime OpenCode loads plugins in; other
+ * runtimes ignore it, which is reported once at transport creation.
+ */
+const createTlsFetch = (tls?: GraphitiTlsConfig): FetchLike | undefined => {
+  if (!tls?.caFile && !tls?.insecure) return undefined;
+  if (!("Bun" in globalThis)) {
+    logger.warn("TLS options are only applied when running under Bun");
+  }
+  const ca = tls.caFile ? readFileSync(tls.caFile, "utf8") : undefined;
+  const tlsOptions = { ca, rejectUnauthorized: !tls.insecure };
+  return (url, init) => fetch(url, { ...init, tls: tlsOptions } as RequestInit);
+};
+
+const createStdioTransport = (
+  stdio?: GraphitiStdioConfig,
+): StdioClientTransport => {
+  if (!stdio?.command) {
+    throw new Error("The stdio transport requires `stdio.command`");
+  }
+  const transport = new StdioClientTransport({
+    command: stdio.command,
+    args: stdio.args,
+    env: { ...getDefaultEnvironment(), ...stdio.env },
+    cwd: stdio.cwd,
+    stderr: "pipe",
+  });
+  // Keep the server's diagnostics out of the OpenCode TUI.
+  transport.stderr?.on("data", (chunk: unknown) => {
+    logger.debug("Graphiti server stderr:", String(chunk).trimEnd());
+  });
+  return transport;
+};
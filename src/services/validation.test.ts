@@ -0,0 +1,150 @@
+import { assertEquals } from "jsr:@std/assert@^1.0.0";
+import { describe, it } from "jsr:@std/testing@^1.0.0/bdd";
+import {
+  parseEpisodes,
+  parseFact,
+  parseFacts,
+  parseNodes,
+} from "./validation.ts";
+
+describe("validation", () => {
+  describe("parseFacts", () => {
+    it("should keep well-formed facts with entity references", () => {
+      const facts = parseFacts({
+        facts: [{
+          uuid: "f1",
+          fact: "API uses REST",
+          valid_at: "2026-01-01T00:00:00Z",
+          source_node: { name: "API", uuid: "n1" },
+          target_node: { name: "REST", uuid: "n2" },
+          group_id: "g1",
+        }],
+      });
+      assertEquals(facts, [{
+        uuid: "f1",
+        fact: "API uses REST",
+        valid_at: "2026-01-01T00:00:00Z",
+        source_node: { name: "API", uuid: "n1" },
+        target_node: { name: "REST", uuid: "n2" },
+      }]);
+    });
+
+    it("should drop malformed facts individually", () => {
+      const facts = parseFacts([
+        { uuid: "f1", fact: "Valid" },
+        { uuid: "f2" },
+        { fact: "No uuid" },
+        "not an object",
+        { uuid: "f3", fact: 42 },
+        { uuid: "f4", fact: "Also valid" },
+      ]);
+      assertEquals(facts.map((fact) => fact.uuid), ["f1", "f4"]);
+    });
+
+    it("should normalize camelCase and null date fields", () => {
+      const facts = parseFacts([
+        {
+          uuid: "f1",
+          fact: "Fact",
+          validAt: "2026-01-01T00:00:00Z",
+          invalid_at: null,
+          source_node: null,
+        },
+      ]);
+      assertEquals(facts, [{
+        uuid: "f1",
+        fact: "Fact",
+        valid_at: "2026-01-01T00:00:00Z",
+      }]);
+    });
+  });
+
+  describe("parseFact", () => {
+    it("should normalize a single fact", () => {
+      assertEquals(
+        parseFact({ uuid: "f1", fact: "Uses Deno", validAt: null }),
+        { uuid: "f1", fact: "Uses Deno" },
+      );
+    });
+
+    it("should return null for a malformed fact", () => {
+      assertEquals(parseFact({ uuid: "f1" }), null);
+      assertEquals(parseFact("not found"), null);
+    });
+  });
+
+  describe("parseNodes", () => {
+    it("should keep well-formed nodes and drop malformed ones", () => {
+      const nodes = parseNodes({
+        nodes: [
+          { uuid: "n1", name: "Node", summary: "About", labels: ["Entity"] },
+          { uuid: "n2", name: null },
+          { uuid: "n3", name: "Bare", summary: null, labels: null },
+        ],
+      });
+      assertEquals(nodes, [
+        { uuid: "n1", name: "Node", summary: "About", labels: ["Entity"] },
+        { uuid: "n3", name: "Bare" },
+      ]);
+    });
+
+    it("should reject non-string labels", () => {
+      assertEquals(parseNodes([{ uuid: "n1", name: "N", labels: [1] }]), []);
+    });
+  });
+
+  describe("parseEpisodes", () => {
+    it("should normalize source description variants", () => {
+      const episodes = parseEpisodes({
+        episodes: [
+          {
+            uuid: "e1",
+            name: "Snapshot",
+            content: "Body",
+            source_description: "session-snapshot",
+            created_at: "2026-02-14T12:00:00Z",
+          },
+          {
+            uuid: "e2",
+            name: "Summary",
+            content: "Body",
+            sourceDescription: "compaction",
+            createdAt: "2026-02-15T12:00:00Z",
+          },
+        ],
+      });
+      assertEquals(episodes, [
+        {
+          uuid: "e1",
+          name: "Snapshot",
+          content: "Body",
+          sourceDescription: "session-snapshot",
+          created_at: "2026-02-14T12:00:00Z",
+        },
+        {
+          uuid: "e2",
+          name: "Summary",
+          content: "Body",
+          sourceDescription: "compaction",
+          created_at: "2026-02-15T12:00:00Z",
+        },
+      ]);
+    });
+
+    it("should accept episode_body as content", () => {
+      assertEquals(parseEpisodes([{ uuid: "e1", episode_body: "Body" }]), [
+        { uuid: "e1", name: "", content: "Body" },
+      ]);
+    });
+
+    it("should drop episodes without content", () => {
+      assertEquals(
+        parseEpisodes([
+          { uuid: "e1", name: "Empty" },
+          { uuid: "e2", content: "Body" },
+        ]).map((episode) => episode.uuid),
+        ["e2"],
+      );
+    });
+  });
+});
@@ -0,0 +1,148 @@
+import * as z from "zod/mini";
+import type {
+  GraphitiEpisode,
+  GraphitiFact,
+  GraphitiNode,
+} from "../types/index.ts";
+import { logger } from "./logger.ts";
+
+/** Optional string field that some server versions send as null. */
+const OptionalString = z.optional(z.nullable(z.string()));
+
+const EntityRefSchema = z.object({
+  name: z.string(),
+  uuid: z.string(),
+});
+
+const FactSchema = z.pipe(
+  z.object({
+    uuid: z.string(),
+    fact: z.string(),
+    valid_at: OptionalString,
+    validAt: OptionalString,
+    invalid_at: OptionalString,
+    invalidAt: OptionalString,
+    source_node: z.optional(z.nullable(EntityRefSchema)),
+    target_node: z.optional(z.nullable(EntityRefSchema)),
+  }),
+  z.transform((raw): GraphitiFact => {
+    const fact: GraphitiFact = { uuid: raw.uuid, fact: raw.fact };
+    const validAt = raw.valid_at ?? raw.validAt;
+    const invalidAt = raw.invalid_at ?? raw.invalidAt;
+    if (validAt) fact.valid_at = validAt;
+    if (invalidAt) fact.invalid_at = invalidAt;
+    if (raw.source_node) fact.source_node = raw.source_node;
+    if (raw.target_node) fact.target_node = raw.target_node;
+    return fact;
+  }),
+);
+
+const NodeSchema = z.pipe(
+  z.object({
+    uuid: z.string(),
+    name: z.string(),
+    summary: OptionalString,
+    labels: z.optional(z.nullable(z.array(z.string()))),
+  }),
+  z.transform((raw): GraphitiNode => {
+    const node: GraphitiNode = { uuid: raw.uuid, name: raw.name };
+    if (raw.summary) node.summary = raw.summary;
+    if (raw.labels) node.labels = raw.labels;
+    return node;
+  }),
+);
+
+const EpisodeSchema = z.pipe(
+  z.object({
+    uuid: z.string(),
+    name: OptionalString,
+    content: OptionalString,
+    episode_body: OptionalString,
+    source: OptionalString,
+    sourceDescription: OptionalString,
+    source_description: OptionalString,
+    created_at: OptionalString,
+    createdAt: OptionalString,
+    labels: z.optional(z.nullable(z.array(z.string()))),
+  }).check(
+    z.refine((raw) => typeof (raw.content ?? raw.episode_body) === "string", {
+      message: "Missing episode content",
+      path: ["content"],
+    }),
+  ),
+  z.transform((raw): GraphitiEpisode => {
+    const episode: GraphitiEpisode = {
+      uuid: raw.uuid,
+      name: raw.name ?? "",
+      content: raw.content ?? raw.episode_body ?? "",
+    };
+    const sourceDescription = raw.sourceDescription ??
+      raw.source_description;
+    const createdAt = raw.created_at ?? raw.createdAt;
+    if (raw.source) episode.source = raw.source;
+    if (sourceDescription) episode.sourceDescription = sourceDescription;
+    if (createdAt) episode.created_at = createdAt;
+    if (raw.labels) episode.labels = raw.labels;
+    return episode;
+  }),
+);
+
+/**
+ * Extract the item list from a tool result that is either a bare array or
+ * an object wrapping the array under `key`.
+ */
+const unwrapList = (result: unknown, key: string): unknown[] => {
+  if (Array.isArray(result)) return result;
+  if (result && typeof result === "object") {
+    const list = (result as Record<string, unknown>)[key];
+    if (Array.isArray(list)) return list;
+  }
+  return [];
+};
+
+const formatIssues = (error: z.core.$ZodError): string[] =>
+  error.issues.map((issue) =>
+    `${issue.path.join(".") || "(root)"}: ${issue.message}`
+  );
+
+const parseList = <T>(
+  result: unknown,
+  key: string,
+  schema: z.ZodMiniType<T>,
+): T[] => {
+  const items: T[] = [];
+  unwrapList(result, key).forEach((item, index) => {
+    const parsed = schema.safeParse(item);
+    if (parsed.success) {
+      items.push(parsed.data);
+      return;
+    }
+    logger.warn(`Dropping malformed Graphiti ${key} item`, {
+      index,
+      issues: formatIssues(parsed.error),
+    });
+  });
+  return items;
+};
+
+/** Validate and normalize a single fact, e.g. from `get_entity_edge`. */
+export const parseFact = (result: unknown): GraphitiFact | null => {
+  const parsed = FactSchema.safeParse(result);
+  if (parsed.success) return parsed.data;
+  logger.warn("Dropping malformed Graphiti fact", {
+    issues: formatIssues(parsed.error),
+  });
+  return null;
+};
+
+/** Validate and normalize facts from a `search_memory_facts` result. */
+export const parseFacts = (result: unknown): GraphitiFact[] =>
+  parseList(result, "facts", FactSchema);
+
+/** Validate and normalize nodes from a `search_nodes` result. */
+export const parseNodes = (result: unknown): GraphitiNode[] =>
+  parseList(result, "nodes", NodeSchema);
+
+/** Validate and normalize episodes from a `get_episodes` result. */
+export const parseEpisodes = (result: unknown): GraphitiEpisode[] =>
+  parseList(result, "episodes", EpisodeSchema);
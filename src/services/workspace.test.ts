@@ -0,0 +1,99 @@
+import { assertEquals } from "jsr:@std/assert@^1.0.0";
+import {
+  afterEach,
+  beforeEach,
+  describe,
+  it,
+} from "jsr:@std/testing@^1.0.0/bdd";
+import { join } from "node:path";
+import { detectWorkspacePackages, findPackage } from "./workspace.ts";
+
+describe("workspace", () => {
+  let root: string;
+
+  const writeManifest = async (
+    directory: string,
+    file: string,
+    content: unknown,
+  ) => {
+    await Deno.mkdir(join(root, directory), { recursive: true });
+    await Deno.writeTextFile(
+      join(root, directory, file),
+      typeof content === "string" ? content : JSON.stringify(content),
+    );
+  };
+
+  const names = async () =>
+    (await detectWorkspacePackages(root)).map((pkg) => pkg.name).sort();
+
+  beforeEach(async () => {
+    root = await Deno.makeTempDir();
+  });
+
+  afterEach(async () => {
+    await Deno.remove(root, { recursive: true });
+  });
+
+  describe("detectWorkspacePackages", () => {
+    it("should find no packages outside a workspace", async () => {
+      await writeManifest(".", "package.json", { name: "shop" });
+
+      assertEquals(await detectWorkspacePackages(root), []);
+    });
+
+    it("should expand package.json workspaces", async () => {
+      await writeManifest(".", "package.json", {
+        workspaces: ["packages/*", "!packages/legacy"],
+      });
+      await writeManifest("packages/api", "package.json", {
+        name: "@shop/api",
+      });
+      await writeManifest("packages/web", "package.json", {});
+      await writeManifest("packages/legacy", "package.json", {});
+      await writeManifest("packages/docs", "README.md", "# Docs");
+
+      assertEquals(await names(), ["@shop/api", "web"]);
+    });
+
+    it("should read deno.json and pnpm-workspace.yaml workspaces", async () => {
+      await writeManifest(".", "deno.json", { workspace: ["./tools/cli"] });
+      await writeManifest(
+        ".",
+        "pnpm-workspace.yaml",
+        "packages:\n  - 'apps/**'\n",
+      );
+      await writeManifest("tools/cli", "deno.json", { name: "@shop/cli" });
+      await writeManifest("apps/admin/panel", "package.json", {
+        name: "panel",
+      });
+
+      assertEquals(await names(), ["@shop/cli", "panel"]);
+    });
+  });
+
+  describe("findPackage", () => {
+    const packages = [
+      { name: "api", directory: "/repo/packages/api" },
+      { name: "api-client", directory: "/repo/packages/api/client" },
+    ];
+
+    it("should pick the innermost package of a file", () => {
+      assertEquals(
+        findPackage(packages, "/repo", "packages/api/client/index.ts")?.name,
+        "api-client",
+      );
+      assertEquals(
+        findPackage(packages, "/repo", "/repo/packages/api/main.ts")?.name,
+        "api",
+      );
+    });
+
+    it("should ignore files outside every package", () => {
+      assertEquals(findPackage(packages, "/repo", "README.md"), undefined);
+      assertEquals(
+        findPackage(packages, "/repo", "packages/api-docs/x.md"),
+        undefined,
+      );
+    });
+  });
+});
@@ -0,0 +1,195 @@
+import { readdir, readFile } from "node:fs/promises";
+import { basename, isAbsolute, join, relative, resolve } from "node:path";
+import { parseJsonc } from "../utils.ts";
+import { logger } from "./logger.ts";
+
+/** A package of a monorepo workspace. */
+export interface WorkspacePackage {
+  /** Package name from its manifest, else its directory name. */
+  name: string;
+  /** Absolute path of the package directory. */
+  directory: string;
+}
+
+const MANIFESTS = ["package.json", "deno.json", "deno.jsonc"];
+
+/** Directories never searched for workspace packages. */
+const SKIPPED_DIRECTORIES = new Set(["node_modules", ".git"]);
+
+/** Deepest `**` expansion, bounding the walk through large trees. */
+const MAX_DEPTH = 6;
+
+const readJson = async (path: string): Promise<Record<string, unknown>> => {
+  try {
+    const parsed = parseJsonc(await readFile(path, "utf8"));
+    return parsed && typeof parsed === "object"
+      ? parsed as Record<string, unknown>
+      : {};
+  } catch {
+    return {};
+  }
+};
+
+const asStrings = (value: unknown): string[] =>
+  Array.isArray(value)
+    ? value.filter((item): item is string => typeof item === "string")
+    : [];
+
+/** The `packages` list of a `pnpm-workspace.yaml`. */
+const readPnpmPatterns = async (root: string): Promise<string[]> => {
+  let content: string;
+  try {
+    content = await readFile(join(root, "pnpm-workspace.yaml"), "utf8");
+  } catch {
+    return [];
+  }
+  const patterns: string[] = [];
+  let inPackages = false;
+  for (const line of content.split("\n")) {
+    if (/^\S/.test(line)) inPackages = /^packages\s*:/.test(line);
+    const item = inPackages && /^\s+-\s*(['"]?)(.+?)\1\s*$/.exec(line);
+    if (item) patterns.push(item[2]);
+  }
+  return patterns;
+};
+
+/** Workspace patterns declared by the manifests in `root`. */
+const readPatterns = async (root: string): Promise<string[]> => {
+  const packageJson = await readJson(join(root, "package.json"));
+  const workspaces = packageJson.workspaces as
+    | string[]
+    | { packages?: unknown }
+    | undefined;
+  const denoJson = {
+    ...await readJson(join(root, "deno.jsonc")),
+    ...await readJson(join(root, "deno.json")),
+  };
+  return [
+    ...asStrings(workspaces),
+    ...asStrings(
+      (workspaces as { packages?: unknown } | undefined)?.packages,
+    ),
+    ...asStrings(denoJson.workspace),
+    ...await readPnpmPatterns(root),
+  ];
+};
+
+const subdirectories = async (directory: string): Promise<string[]> => {
+  try {
+    const entries = await readdir(directory, { withFileTypes: true });
+    return entries
+      .filter((entry) =>
+        entry.isDirectory() && !SKIPPED_DIRECTORIES.has(entry.name)
+      )
+      .map((entry) => entry.name);
+  } catch {
+    return [];
+  }
+};
+
+const segmentPattern = (segment: string) =>
+  new RegExp(
+    `^${segment.replace(/[.+?^${}()|[\]\\]/g, "\\$&").replace(/\*/g, ".*")}$`,
+  );
+
+/** Expand a workspace glob (`*` within a segment, `**` across them). */
+const expand = async (
+  directory: string,
+  segments: string[],
+  depth = 0,
+): Promise<string[]> => {
+  if (segments.length === 0) return [directory];
+  const [segment, ...rest] = segments;
+  if (segment === "" || segment === ".") {
+    return expand(directory, rest, depth);
+  }
+  if (segment === "**") {
+    const here = await expand(directory, rest, depth);
+    if (depth >= MAX_DEPTH) return here;
+    const below = await Promise.all(
+      (await subdirectories(directory)).map((name) =>
+        expand(join(directory, name), segments, depth + 1)
+      ),
+    );
+    return [...here, ...below.flat()];
+  }
+  if (!segment.includes("*")) {
+    return expand(join(directory, segment), rest, depth);
+  }
+  const pattern = segmentPattern(segment);
+  const matches = await Promise.all(
+    (await subdirectories(directory))
+      .filter((name) => pattern.test(name))
+      .map((name) => expand(join(directory, name), rest, depth + 1)),
+  );
+  return matches.flat();
+};
+
+const describePackage = async (
+  directory: string,
+): Promise<WorkspacePackage | undefined> => {
+  for (const manifest of MANIFESTS) {
+    try {
+      await readFile(join(directory, manifest));
+    } catch {
+      continue;
+    }
+    const { name } = await readJson(join(directory, manifest));
+    return {
+      name: typeof name === "string" && name ? name : basename(directory),
+      directory,
+    };
+  }
+  return undefined;
+};
+
+/**
+ * Find the packages of the workspace rooted at `root`, as declared by
+ * `package.json` workspaces, a `deno.json` workspace or
+ * `pnpm-workspace.yaml`. Returns no packages outside a workspace.
+ */
+export async function detectWorkspacePackages(
+  root: string,
+): Promise<WorkspacePackage[]> {
+  const patterns = await readPatterns(root);
+  const include = patterns.filter((pattern) => !pattern.startsWith("!"));
+  const exclude = new Set(
+    (await Promise.all(
+      patterns
+        .filter((pattern) => pattern.startsWith("!"))
+        .map((pattern) => expand(root, pattern.slice(1).split("/"))),
+    )).flat(),
+  );
+
+  const directories = new Set(
+    (await Promise.all(
+      include.map((pattern) => expand(root, pattern.split("/"))),
+    )).flat().filter((directory) =>
+      directory !== root && !exclude.has(directory)
+    ),
+  );
+  const packages = (await Promise.all([...directories].map(describePackage)))
+    .filter((pkg): pkg is WorkspacePackage => pkg !== undefined);
+  if (packages.length > 0) {
+    logger.info(
+      "Detected workspace packages:",
+      packages.map((pkg) => pkg.name).join(", "),
+    );
+  }
+  return packages;
+}
+
+/** The innermost package containing `file` (absolute or root-relative). */
+export const findPackage = (
+  packages: WorkspacePackage[],
+  root: string,
+  file: string,
+): WorkspacePackage | undefined => {
+  const path = isAbsolute(file) ? file : resolve(root, file);
+  return packages
+    .filter((pkg) => {
+      const inside = relative(pkg.directory, path);
+      return !inside.startsWith("..") && !isAbsolute(inside);
+    })
+    .sort((a, b) => b.directory.length - a.directory.length)[0];
+};
@@ -3,8 +3,11 @@ import type {
   Part,
   SessionMessagesResponses,
 } from "@opencode-ai/sdk";
-import type { GraphitiClient } from "./services/client.ts";
+import type { MemoryBackend } from "./services/backend.ts";
+import type { BranchScope } from "./services/branch-scope.ts";
 import { logger } from "./services/logger.ts";
+import { extractPreferences } from "./services/preferences.ts";
+import type { ModelRef } from "./services/tokenizer.ts";
 import { extractTextFromParts } from "./utils.ts";
 
 /**
@@ -13,8 +16,16 @@ import { extractTextFromParts } from "./utils.ts";
 export type SessionState = {
   /** Graphiti group ID for this session. */
   groupId: string;
+  /** Groups searched for project memory; defaults to `[groupId]`. */
+  projectGroupIds?: string[];
+  /** Group of the workspace package the session works in, if any. */
+  packageGroupId?: string;
+  /** Tool calls per workspace package, choosing `packageGroupId`. */
+  packageTouches?: Record<string, number>;
   /** Graphiti group ID for user-scoped memories. */
   userGroupId: string;
+  /** User group shared by all projects, receiving the user's preferences. */
+  globalUserGroupId?: string;
   /** Whether memories have been injected into this session yet. */
   injectedMemories: boolean;
   /** Fact UUIDs included in the last memory injection. */
@@ -31,10 +42,22 @@ export type SessionState = {
   pendingMessages: string[];
   /** Context window limit in tokens. */
   contextLimit: number;
+  /** Model the session last used; selects the tokenizer. */
+  model?: ModelRef;
   /** True when this session is the primary (non-subagent) session. */
   isMain: boolean;
 };
 
+/** Optional collaborators and identities of a {@link SessionManager}. */
+export interface SessionManagerOptions {
+  /** Places sessions on non-default git branches in branch groups. */
+  branchScope?: BranchScope;
+  /** User group shared by all projects, receiving the user's preferences. */
+  globalUserGroupId?: string;
+  /** Speaker name of the user's messages in episodes; `User` if unset. */
+  userName?: string;
+}
+
 /**
  * Tracks per-session state, parent resolution, message buffering,
  * and flushing pending messages to Graphiti.
@@ -52,7 +75,8 @@ export class SessionManager {
     private readonly defaultGroupId: string,
     private readonly defaultUserGroupId: string,
     private readonly sdkClient: OpencodeClient,
-    private readonly graphitiClient: GraphitiClient,
+    private readonly memoryBackend: MemoryBackend,
+    private readonly options: SessionManagerOptions = {},
   ) {}
 
   /** Get the current session state, if present. */
@@ -108,9 +132,15 @@ export class SessionManager {
 
     let state = this.sessions.get(sessionId);
     if (!state) {
+      const groups = await this.options.branchScope?.resolve();
+      // Another hook may have initialized the session meanwhile.
+      const existing = this.sessions.get(sessionId);
+      if (existing) return { state: existing, resolved: true };
       state = {
-        groupId: this.defaultGroupId,
+        groupId: groups?.groupId ?? this.defaultGroupId,
+        projectGroupIds: groups?.projectGroupIds,
         userGroupId: this.defaultUserGroupId,
+        globalUserGroupId: this.options.globalUserGroupId,
         injectedMemories: false,
         lastInjectionFactUuids: [],
         cachedMemoryContext: undefined,
@@ -261,9 +291,10 @@ export class SessionManager {
         `Buffered message contents:\n${messageLines.join("\n")}`,
         { sessionId },
       );
-      await this.graphitiClient.addEpisode({
+      await this.memoryBackend.addEpisode({
         name: `Buffered messages: ${name}`,
-        episodeBody: combined,
+        episodeBody: messagesToFlush.map((message) => this.attribute(message))
+          .join("\n\n"),
         groupId: state.groupId,
         source: "text",
         sourceDescription,
@@ -278,9 +309,52 @@ export class SessionManager {
           ...currentState.pendingMessages,
         ];
       }
+      return;
+    }
+
+    if (state.globalUserGroupId) {
+      await this.savePreferences(
+        sessionId,
+        state.globalUserGroupId,
+        messagesToFlush,
+      );
+    }
+  }
+
+  /** Save the user's preference-like statements to their global group. */
+  private async savePreferences(
+    sessionId: string,
+    groupId: string,
+    messages: string[],
+  ): Promise<void> {
+    const preferences = extractPreferences(messages);
+    if (preferences.length === 0) return;
+    try {
+      await this.memoryBackend.addEpisode({
+        name: `User preferences: ${preferences[0].slice(0, 60)}`,
+        episodeBody: preferences
+          .map((preference) => this.attribute(`User: ${preference}`))
+          .join("\n"),
+        groupId,
+        source: "text",
+        sourceDescription: "user-preferences",
+      });
+      logger.info(`Saved ${preferences.length} user preference(s)`, {
+        sessionId,
+      });
+    } catch (err) {
+      logger.error(`Failed to save preferences for ${sessionId}:`, err);
     }
   }
 
+  /** Name the user as the speaker of a buffered `User:` message. */
+  private attribute(message: string): string {
+    const { userName } = this.options;
+    return userName && message.startsWith("User:")
+      ? `${userName}:${message.slice("User:".length)}`
+      : message;
+  }
+
   /** Remove a pending assistant message by key. */
   deletePendingAssistant(sessionId: string, messageId: string): void {
     const key = `${sessionId}:${messageId}`;
@@ -0,0 +1,360 @@
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import type { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
+import {
+  CallToolRequestSchema,
+  type CallToolResult,
+  ErrorCode,
+  ListToolsRequestSchema,
+  McpError,
+} from "@modelcontextprotocol/sdk/types.js";
+import type { GraphitiFact, GraphitiNode } from "../types/index.ts";
+
+/** An episode stored by {@link FakeGraphitiServer}. */
+export interface FakeEpisode {
+  uuid: string;
+  name: string;
+  content: string;
+  source: string;
+  source_description: string;
+  group_id: string;
+  created_at: string;
+}
+
+/** A tool call received by {@link FakeGraphitiServer}. */
+export interface FakeToolCall {
+  tool: string;
+  args: Record<string, unknown>;
+}
+
+/**
+ * Fault injected into a tool call:
+ * - `internal-error`: the server answers with a JSON-RPC internal error.
+ * - `invalid-params`: the server rejects the arguments of the call.
+ * - `tool-error`: the tool reports failure with `isError`.
+ * - `graphiti-error`: the tool returns Graphiti's `{ error }` payload.
+ * - `disconnect`: the server drops the connection without answering.
+ */
+export type FakeFault =
+  | "internal-error"
+  | "invalid-params"
+  | "tool-error"
+  | "graphiti-error"
+  | "disconnect";
+
+/** Scripted tool implementation; its return value is sent as JSON text. */
+export type FakeToolHandler = (
+  args: Record<string, unknown>,
+) => unknown | Promise<unknown>;
+
+interface ScriptedFault {
+  fault: FakeFault;
+  remaining: number;
+}
+
+/** Tools of the Graphiti MCP server, as advertised by `tools/list`. */
+const TOOLS = [
+  {
+    name: "add_memory",
+    properties: [
+      "name",
+      "episode_body",
+      "group_id",
+      "source",
+      "source_description",
+      "uuid",
+    ],
+    required: ["name", "episode_body"],
+  },
+  {
+    name: "search_memory_facts",
+    properties: ["query", "group_ids", "max_facts", "center_node_uuid"],
+    required: ["query"],
+  },
+  {
+    name: "search_nodes",
+    properties: ["query", "group_ids", "max_nodes", "entity_types"],
+    required: ["query"],
+  },
+  { name: "get_episodes", properties: ["group_id", "last_n"], required: [] },
+  { name: "get_status", properties: [], required: [] },
+  { name: "delete_episode", properties: ["uuid"], required: ["uuid"] },
+  { name: "delete_entity_edge", properties: ["uuid"], required: ["uuid"] },
+  { name: "get_entity_edge", properties: ["uuid"], required: ["uuid"] },
+  { name: "clear_graph", properties: ["group_ids"], required: [] },
+];
+
+const asStringList = (value: unknown): string[] | undefined =>
+  Array.isArray(value) ? value.map(String) : undefined;
+
+const inGroups = (groupId: string, groupIds?: string[]) =>
+  !groupIds?.length || groupIds.includes(groupId);
+
+/** Wait for `ms`, settling early (and clearing the timer) on abort. */
+const sleep = (ms: number, signal: AbortSignal): Promise<void> =>
+  new Promise((resolve) => {
+    const timer = setTimeout(done, ms);
+    signal.addEventListener("abort", done, { once: true });
+    function done() {
+      clearTimeout(timer);
+      signal.removeEventListener("abort", done);
+      resolve();
+    }
+  });
+
+/**
+ * In-process stand-in for the Graphiti MCP server. It speaks real MCP over
+ * an in-memory transport, keeps episodes, facts and nodes per group, and
+ * can be scripted with custom responses, faults and latency per tool.
+ */
+export class FakeGraphitiServer {
+  /** Every tool call received, in order. */
+  readonly calls: FakeToolCall[] = [];
+  /** Episodes added through `add_memory`. */
+  readonly episodes: FakeEpisode[] = [];
+  private readonly facts = new Map<string, GraphitiFact[]>();
+  private readonly nodes = new Map<string, GraphitiNode[]>();
+  private readonly handlers = new Map<string, FakeToolHandler>();
+  private readonly faults = new Map<string, ScriptedFault>();
+  private readonly latencies = new Map<string, number>();
+  private readonly hidden = new Set<string>();
+  private readonly servers = new Set<Server>();
+  private nextId = 0;
+  private offline = false;
+
+  /** Number of connections opened so far. */
+  connections = 0;
+
+  /**
+   * Create a client-side transport connected to a fresh server session.
+   * Pass as `transportFactory` to the client or plugin. While the server
+   * is offline the transport fails to start, like a refused connection.
+   */
+  createTransport(): Transport {
+    if (this.offline) {
+      return {
+        start: () => Promise.reject(new Error("Connection refused")),
+        send: () => Promise.reject(new Error("Not connected")),
+        close: () => Promise.resolve(),
+      };
+    }
+    const [clientTransport, serverTransport] = InMemoryTransport
+      .createLinkedPair();
+    const server = this.createServer();
+    this.servers.add(server);
+    server.onclose = () => this.servers.delete(server);
+    this.connections += 1;
+    void server.connect(serverTransport);
+    return clientTransport;
+  }
+
+  /** Store a fact that searches in `groupId` will return. */
+  addFact(groupId: string, fact: GraphitiFact): void {
+    this.facts.set(groupId, [...(this.facts.get(groupId) ?? []), fact]);
+  }
+
+  /** Store a node that searches in `groupId` will return. */
+  addNode(groupId: string, node: GraphitiNode): void {
+    this.nodes.set(groupId, [...(this.nodes.get(groupId) ?? []), node]);
+  }
+
+  /** Replace the built-in behavior of a tool. */
+  respond(tool: string, handler: FakeToolHandler): void {
+    this.handlers.set(tool, handler);
+  }
+
+  /** Fail the next `times` calls of a tool (every call by default). */
+  fail(tool: string, fault: FakeFault, times = Infinity): void {
+    this.faults.set(tool, { fault, remaining: times });
+  }
+
+  /** Delay every answer of a tool by `ms`. */
+  delay(tool: string, ms: number): void {
+    this.latencies.set(tool, ms);
+  }
+
+  /** Leave a tool out of `tools/list`, like servers that lack it. */
+  hide(tool: string): void {
+    this.hidden.add(tool);
+  }
+
+  /** Remove all scripted handlers, faults, latencies and hidden tools. */
+  reset(): void {
+    this.handlers.clear();
+    this.faults.clear();
+    this.latencies.clear();
+    this.hidden.clear();
+  }
+
+  /** Calls received for one tool. */
+  callsTo(tool: string): FakeToolCall[] {
+    return this.calls.filter((call) => call.tool === tool);
+  }
+
+  /** Drop every open session and refuse new connections. */
+  async goOffline(): Promise<void> {
+    this.offline = true;
+    await this.close();
+  }
+
+  /** Accept connections again after {@link goOffline}. */
+  goOnline(): void {
+    this.offline = false;
+  }
+
+  /** Close every open server session. */
+  async close(): Promise<void> {
+    await Promise.all([...this.servers].map((server) => server.close()));
+  }
+
+  private createServer(): Server {
+    const server = new Server(
+      { name: "fake-graphiti", version: "0.0.0" },
+      { capabilities: { tools: {} } },
+    );
+    server.setRequestHandler(ListToolsRequestSchema, () => ({
+      tools: TOOLS.filter((tool) => !this.hidden.has(tool.name)).map((
+        tool,
+      ) => ({
+        name: tool.name,
+        inputSchema: {
+          type: "object" as const,
+          properties: Object.fromEntries(
+            tool.properties.map((property) => [property, {}]),
+          ),
+          required: tool.required,
+        },
+      })),
+    }));
+    server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
+      const tool = request.params.name;
+      const args = request.params.arguments ?? {};
+      this.calls.push({ tool, args });
+
+      const latency = this.latencies.get(tool);
+      if (latency) await sleep(latency, extra.signal);
+
+      const fault = this.takeFault(tool);
+      if (fault === "disconnect") {
+        await server.close();
+        // The client sees the connection close; this answer goes nowhere.
+        return { content: [] };
+      }
+      if (fault === "internal-error") {
+        throw new McpError(ErrorCode.InternalError, `${tool} failed`);
+      }
+      if (fault === "invalid-params") {
+        throw new McpError(ErrorCode.InvalidParams, `${tool} rejected`);
+      }
+      if (fault === "tool-error") {
+        return {
+          content: [{ type: "text", text: `${tool} failed` }],
+          isError: true,
+        };
+      }
+      if (fault === "graphiti-error") {
+        return this.toResult({ error: `${tool} failed` });
+      }
+
+      const handler = this.handlers.get(tool);
+      const payload = handler ? await handler(args) : this.invoke(tool, args);
+      return this.toResult(payload);
+    });
+    return server;
+  }
+
+  private takeFault(tool: string): FakeFault | undefined {
+    const scripted = this.faults.get(tool);
+    if (!scripted) return undefined;
+    scripted.remaining -= 1;
+    if (scripted.remaining <= 0) this.faults.delete(tool);
+    return scripted.fault;
+  }
+
+  private toResult(payload: unknown): CallToolResult {
+    return { content: [{ type: "text", text: JSON.stringify(payload) }] };
+  }
+
+  /** Built-in behavior, following the Graphiti MCP server's responses. */
+  private invoke(tool: string, args: Record<string, unknown>): unknown {
+    switch (tool) {
+      case "add_memory": {
+        const episode: FakeEpisode = {
+          uuid: `episode-${++this.nextId}`,
+          name: String(args.name ?? ""),
+          content: String(args.episode_body ?? ""),
+          source: String(args.source ?? "text"),
+          source_description: String(args.source_description ?? ""),
+          group_id: String(args.group_id ?? "main"),
+          created_at: new Date().toISOString(),
+        };
+        this.episodes.push(episode);
+        return {
+          message: `Episode '${episode.name}' queued for processing`,
+        };
+      }
+      case "search_memory_facts": {
+        const groupIds = asStringList(args.group_ids);
+        const facts = [...this.facts]
+          .filter(([groupId]) => inGroups(groupId, groupIds))
+          .flatMap(([, facts]) => facts)
+          .slice(0, Number(args.max_facts ?? 10));
+        return { message: "Facts retrieved successfully", facts };
+      }
+      case "search_nodes": {
+        const groupIds = asStringList(args.group_ids);
+        const nodes = [...this.nodes]
+          .filter(([groupId]) => inGroups(groupId, groupIds))
+          .flatMap(([, nodes]) => nodes)
+          .slice(0, Number(args.max_nodes ?? 10));
+        return { message: "Nodes retrieved successfully", nodes };
+      }
+      case "get_episodes": {
+        const groupId = args.group_id === undefined
+          ? undefined
+          : String(args.group_id);
+        const lastN = Number(args.last_n ?? 10);
+        return this.episodes
+          .filter((episode) => !groupId || episode.group_id === groupId)
+          .slice(-lastN)
+          .reverse();
+      }
+      case "get_status":
+        return { status: "ok", message: "Graphiti MCP server is running" };
+      case "delete_episode": {
+        const index = this.episodes.findIndex((episode) =>
+          episode.uuid === args.uuid
+        );
+        if (index === -1) return { error: `Episode ${args.uuid} not found` };
+        this.episodes.splice(index, 1);
+        return { message: `Episode ${args.uuid} deleted successfully` };
+      }
+      case "delete_entity_edge":
+      case "get_entity_edge": {
+        for (const facts of this.facts.values()) {
+          const index = facts.findIndex((fact) => fact.uuid === args.uuid);
+          if (index === -1) continue;
+          if (tool === "get_entity_edge") return facts[index];
+          facts.splice(index, 1);
+          return { message: `Entity edge ${args.uuid} deleted successfully` };
+        }
+        return { error: `Entity edge ${args.uuid} not found` };
+      }
+      case "clear_graph": {
+        const groupIds = asStringList(args.group_ids);
+        for (const map of [this.facts, this.nodes]) {
+          for (const groupId of [...map.keys()]) {
+            if (inGroups(groupId, groupIds)) map.delete(groupId);
+          }
+        }
+        const kept = this.episodes.filter((episode) =>
+          !inGroups(episode.group_id, groupIds)
+        );
+        this.episodes.splice(0, this.episodes.length, ...kept);
+        return { message: "Graph cleared successfully" };
+      }
+      default:
+        throw new McpError(ErrorCode.MethodNotFound, `Unknown tool ${tool}`);
+    }
+  }
+}
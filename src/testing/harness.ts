@@ -0,0 +1,249 @@
+import type { Hooks, PluginInput } from "@opencode-ai/plugin";
+import type { Part } from "@opencode-ai/sdk";
+import { join } from "node:path";
+import type { ResolvedConfig } from "../config.ts";
+import { createGraphitiPlugin } from "../plugin.ts";
+import { DEFAULT_COMPACTION } from "../services/compaction.ts";
+import { DEFAULT_RETRIEVAL } from "../services/context.ts";
+import { DEFAULT_BUDGET } from "../services/context-limit.ts";
+import type { GraphitiConfig } from "../types/index.ts";
+import type { FakeGraphitiServer } from "./fake-graphiti-server.ts";
+
+/** Options for {@link PluginHarness.boot}. */
+export interface PluginHarnessOptions {
+  /** Server the plugin connects to. */
+  server: FakeGraphitiServer;
+  /** Servers for specific endpoints; others connect to `server`. */
+  servers?: Record<string, FakeGraphitiServer>;
+  /** Project directory reported to the plugin. */
+  directory: string;
+  /** Directory for the episode queue and local memory files. */
+  dataDir: string;
+  /** Overrides applied on top of the default configuration. */
+  config?: Partial<GraphitiConfig>;
+}
+
+interface FakeMessage {
+  info: { id: string; sessionID: string; role: "user" | "assistant" };
+  parts: Part[];
+}
+
+const DEFAULT_TEST_CONFIG: GraphitiConfig = {
+  endpoint: "http://fake-graphiti/mcp",
+  transport: "http",
+  writePolicy: "primary",
+  backend: "graphiti",
+  groupIdPrefix: "test",
+  groupIdStrategy: "directory",
+  branchScope: false,
+  packageScope: false,
+  globalUserScope: false,
+  relatedProjects: [],
+  driftThreshold: 0.5,
+  factStaleDays: 30,
+  timeouts: { search: 1_000, ingest: 1_000, status: 1_000 },
+  searchCache: { ttlMs: 30_000, maxEntries: 200 },
+  retrieval: DEFAULT_RETRIEVAL,
+  budget: DEFAULT_BUDGET,
+  compaction: DEFAULT_COMPACTION,
+  idleFlushMinBytes: 50,
+  capture: true,
+  inject: true,
+  snapshots: true,
+};
+
+/**
+ * The `graphiti` plugin booted against a {@link FakeGraphitiServer}, with
+ * helpers that replay the OpenCode events and hooks of a conversation.
+ */
+export class PluginHarness {
+  private nextId = 0;
+
+  private constructor(
+    readonly hooks: Hooks,
+    private readonly parents: Map<string, string | undefined>,
+    private readonly messages: Map<string, FakeMessage[]>,
+    private readonly configOf: (
+      overrides?: Partial<GraphitiConfig>,
+    ) => GraphitiConfig,
+    private readonly applyConfig?: (resolved: ResolvedConfig) => Promise<void>,
+  ) {}
+
+  /** Boot the plugin with a fake OpenCode client. */
+  static async boot(options: PluginHarnessOptions): Promise<PluginHarness> {
+    const parents = new Map<string, string | undefined>();
+    const messages = new Map<string, FakeMessage[]>();
+    const sdkClient = {
+      session: {
+        get: ({ path }: { path: { id: string } }) =>
+          Promise.resolve({
+            data: parents.has(path.id)
+              ? { id: path.id, parentID: parents.get(path.id) }
+              : undefined,
+          }),
+        messages: ({ path }: { path: { id: string } }) =>
+          Promise.resolve({ data: messages.get(path.id) ?? [] }),
+      },
+      provider: {
+        list: () => Promise.resolve({ providers: [] }),
+      },
+    };
+    const configOf = (overrides?: Partial<GraphitiConfig>) => ({
+      ...DEFAULT_TEST_CONFIG,
+      localStorePath: join(options.dataDir, "local-memory.jsonl"),
+      ...overrides,
+    });
+    let applyConfig: ((resolved: ResolvedConfig) => Promise<void>) | undefined;
+    const plugin = createGraphitiPlugin({
+      config: configOf(options.config),
+      transportFactory: (endpoint) =>
+        (options.servers?.[endpoint] ?? options.server).createTransport(),
+      queuePath: join(options.dataDir, "episode-queue.jsonl"),
+      groupAliasesPath: join(options.dataDir, "group-aliases.json"),
+      watchConfig: (onChange) => {
+        applyConfig = onChange;
+      },
+    });
+    const hooks = await plugin({
+      client: sdkClient,
+      directory: options.directory,
+      worktree: options.directory,
+    } as unknown as PluginInput);
+    return new PluginHarness(hooks, parents, messages, configOf, applyConfig);
+  }
+
+  /**
+   * Apply a changed configuration as if its file had been edited; the
+   * overrides replace those the harness was booted with.
+   */
+  async reloadConfig(overrides: Partial<GraphitiConfig>): Promise<void> {
+    await this.applyConfig?.({
+      config: this.configOf(overrides),
+      issues: [],
+      sources: [],
+    });
+  }
+
+  /** Run a tool on a file through `tool.execute.before`. */
+  async touchFile(sessionId: string, filePath: string): Promise<void> {
+    await this.hooks["tool.execute.before"]?.(
+      { tool: "read", sessionID: sessionId, callID: `call-${++this.nextId}` },
+      { args: { filePath } },
+    );
+  }
+
+  /** Emit `session.created` for a main session or a subagent session. */
+  async createSession(sessionId: string, parentId?: string): Promise<void> {
+    this.parents.set(sessionId, parentId);
+    this.messages.set(sessionId, []);
+    await this.emit({
+      type: "session.created",
+      properties: { info: { id: sessionId, parentID: parentId } },
+    });
+  }
+
+  /**
+   * Send a user message through `chat.message` and return the parts the
+   * plugin left on the message.
+   */
+  async sendUserMessage(sessionId: string, text: string): Promise<Part[]> {
+    const messageId = `msg-${++this.nextId}`;
+    const output = {
+      message: { id: messageId, sessionID: sessionId, role: "user" },
+      parts: [this.textPart(sessionId, messageId, text)],
+    };
+    await this.hooks["chat.message"]?.(
+      { sessionID: sessionId } as never,
+      output as never,
+    );
+    this.record(sessionId, { id: messageId, role: "user" }, output.parts);
+    return output.parts;
+  }
+
+  /** Stream an assistant reply and mark it completed. */
+  async sendAssistantMessage(sessionId: string, text: string): Promise<void> {
+    const messageId = `msg-${++this.nextId}`;
+    const part = this.textPart(sessionId, messageId, text);
+    await this.emit({ type: "message.part.updated", properties: { part } });
+    this.record(sessionId, { id: messageId, role: "assistant" }, [part]);
+    await this.emit({
+      type: "message.updated",
+      properties: {
+        info: {
+          id: messageId,
+          sessionID: sessionId,
+          role: "assistant",
+          time: { created: Date.now(), completed: Date.now() },
+        },
+      },
+    });
+  }
+
+  /**
+   * Run `experimental.chat.messages.transform` over the conversation so far
+   * and return the transformed messages.
+   */
+  async transformMessages(sessionId: string): Promise<FakeMessage[]> {
+    const output = {
+      messages: structuredClone(this.messages.get(sessionId) ?? []),
+    };
+    await this.hooks["experimental.chat.messages.transform"]?.(
+      {} as never,
+      output as never,
+    );
+    return output.messages;
+  }
+
+  /** Emit `session.idle`. */
+  async idle(sessionId: string): Promise<void> {
+    await this.emit({
+      type: "session.idle",
+      properties: { sessionID: sessionId },
+    });
+  }
+
+  /**
+   * Run the compacting hook with the given context, then emit
+   * `session.compacted`. Returns the compaction context the plugin built.
+   */
+  async compact(
+    sessionId: string,
+    summary: string,
+    context: string[] = [],
+  ): Promise<string[]> {
+    const output = { context: [...context] };
+    await this.hooks["experimental.session.compacting"]?.(
+      { sessionID: sessionId },
+      output as never,
+    );
+    await this.emit({
+      type: "session.compacted",
+      properties: { sessionID: sessionId, summary },
+    });
+    return output.context;
+  }
+
+  private emit(event: Record<string, unknown>): Promise<void> {
+    return this.hooks.event?.({ event: event as never }) ?? Promise.resolve();
+  }
+
+  private textPart(sessionId: string, messageId: string, text: string): Part {
+    return {
+      id: `part-${++this.nextId}`,
+      sessionID: sessionId,
+      messageID: messageId,
+      type: "text",
+      text,
+    };
+  }
+
+  private record(
+    sessionId: string,
+    info: { id: string; role: "user" | "assistant" },
+    parts: Part[],
+  ): void {
+    const messages = this.messages.get(sessionId) ?? [];
+    messages.push({ info: { ...info, sessionID: sessionId }, parts });
+    this.messages.set(sessionId, messages);
+  }
+}
@@ -1,13 +1,244 @@
+/** MCP transport used to reach the Graphiti server. */
+export type GraphitiTransport = "http" | "sse" | "stdio";
+
+/**
+ * Where memories are stored and recalled from:
+ * - `graphiti`: the Graphiti MCP server only.
+ * - `local`: a file on this machine, searched lexically.
+ * - `fallback`: both; recall uses the local copy while Graphiti is down.
+ */
+export type MemoryBackendKind = "graphiti" | "local" | "fallback";
+
+/** Local Graphiti MCP server process launched for the stdio transport. */
+export interface GraphitiStdioConfig {
+  /** Executable that starts the server. */
+  command: string;
+  /** Arguments passed to the executable. */
+  args?: string[];
+  /** Extra environment variables for the server process. */
+  env?: Record<string, string>;
+  /** Working directory for the server process. */
+  cwd?: string;
+}
+
+/** Credentials attached to requests for the HTTP-based transports. */
+export interface GraphitiAuthConfig {
+  /** Environment variable holding a bearer token. */
+  bearerTokenEnv?: string;
+  /** File whose trimmed contents are a bearer token. */
+  bearerTokenFile?: string;
+}
+
+/** TLS settings for the HTTP-based transports. */
+export interface GraphitiTlsConfig {
+  /** PEM file with additional trusted certificate authorities. */
+  caFile?: string;
+  /** Skip certificate verification (development only). */
+  insecure?: boolean;
+}
+
+/**
+ * Where episodes go when several endpoints are configured:
+ * - `primary`: always the first endpoint, queued until it accepts them.
+ * - `any`: the first endpoint that is currently healthy.
+ */
+export type GraphitiWritePolicy = "primary" | "any";
+
+/**
+ * A Graphiti server in a failover list. Unset connection settings are
+ * inherited from the top-level configuration.
+ */
+export interface GraphitiEndpointConfig {
+  /** URL of the Graphiti MCP server endpoint. */
+  endpoint: string;
+  /** MCP transport used to reach the server. */
+  transport?: GraphitiTransport;
+  /** Server process to spawn when `transport` is `stdio`. */
+  stdio?: GraphitiStdioConfig;
+  /** Static headers sent with every HTTP request. */
+  headers?: Record<string, string>;
+  /** Bearer token source for the endpoint. */
+  auth?: GraphitiAuthConfig;
+  /** TLS settings for the endpoint. */
+  tls?: GraphitiTlsConfig;
+}
+
+/**
+ * How the project part of group IDs is derived:
+ * - `directory`: the name of the project directory.
+ * - `git`: the repository's remote URL, else its root commit, else the
+ *   directory name.
+ */
+export type GroupIdStrategy = "directory" | "git";
+
 /** Plugin configuration for Graphiti memory integration. */
 export interface GraphitiConfig {
   /** URL of the Graphiti MCP server endpoint. */
   endpoint: string;
+  /** MCP transport used to reach the server. */
+  transport: GraphitiTransport;
+  /** Server process to spawn when `transport` is `stdio`. */
+  stdio?: GraphitiStdioConfig;
+  /** Static headers sent with every HTTP request. */
+  headers?: Record<string, string>;
+  /** Bearer token source for the endpoint. */
+  auth?: GraphitiAuthConfig;
+  /** TLS settings for the endpoint. */
+  tls?: GraphitiTlsConfig;
+  /**
+   * Ordered Graphiti servers for failover, replacing `endpoint`; the first
+   * one is the primary.
+   */
+  endpoints?: GraphitiEndpointConfig[];
+  /** Which endpoint receives episodes when several are configured. */
+  writePolicy: GraphitiWritePolicy;
+  /** Memory storage and recall backend. */
+  backend: MemoryBackendKind;
+  /** File used by the `local` and `fallback` backends. */
+  localStorePath?: string;
   /** Prefix for group IDs to namespace project memories. */
   groupIdPrefix: string;
+  /** How the project part of group IDs is derived. */
+  groupIdStrategy: GroupIdStrategy;
+  /**
+   * Keep memories of non-default git branches in a branch group until the
+   * branch is merged (promoted) or deleted unmerged (kept, unsearched).
+   */
+  branchScope: boolean;
+  /**
+   * Keep memories of monorepo workspace packages in per-package groups,
+   * chosen by the files a session touches.
+   */
+  packageScope: boolean;
+  /**
+   * Identity of the user in user group IDs and as the speaker of their
+   * messages; the git `user.email`, else the home directory name when unset.
+   */
+  userId?: string;
+  /**
+   * Search a user group shared by all projects and save preference-like
+   * statements of the user to it.
+   */
+  globalUserScope: boolean;
+  /**
+   * Other projects whose memory is searched as a third scope and labelled
+   * with its origin.
+   */
+  relatedProjects: GraphitiRelatedProject[];
   /** Jaccard similarity threshold below which reinjection occurs. */
   driftThreshold: number;
   /** Number of days after which facts are considered stale. */
   factStaleDays: number;
+  /** Request timeouts per Graphiti operation class. */
+  timeouts: GraphitiTimeouts;
+  /** Short-lived cache of search results. */
+  searchCache: GraphitiSearchCacheConfig;
+  /** Result limits per memory search. */
+  retrieval: GraphitiRetrievalConfig;
+  /** Size and division of the injected memory. */
+  budget: GraphitiBudgetConfig;
+  /** Prioritization of facts added to the compaction context. */
+  compaction: GraphitiCompactionConfig;
+  /**
+   * Minimum size in bytes of buffered messages that are saved as an episode
+   * when a session goes idle.
+   */
+  idleFlushMinBytes: number;
+  /** Record conversations and compaction summaries as episodes. */
+  capture: boolean;
+  /** Inject recalled memory into messages and compaction context. */
+  inject: boolean;
+  /** Save a session snapshot on idle and prime new sessions with it. */
+  snapshots: boolean;
+}
+
+/** A project whose memory is searched alongside the current one. */
+export interface GraphitiRelatedProject {
+  /** Main group ID of the project, e.g. `opencode-web-app__main`. */
+  groupId: string;
+  /** Name shown with its memories; derived from the group ID if omitted. */
+  name?: string;
+  /** Relative share of the related memory budget; 1 if omitted. */
+  weight?: number;
+}
+
+/** Result limits per memory search. */
+export interface GraphitiRetrievalConfig {
+  /** Facts requested from the project group. */
+  projectFacts: number;
+  /** Nodes requested from the project group. */
+  projectNodes: number;
+  /** Facts requested from the user group. */
+  userFacts: number;
+  /** Nodes requested from the user group. */
+  userNodes: number;
+  /** Facts requested from each related project. */
+  relatedFacts: number;
+  /** Nodes requested from each related project. */
+  relatedNodes: number;
+  /** Facts compared with the last injection to detect topic drift. */
+  driftFacts: number;
+}
+
+/** Bundled BPE encodings used to count tokens. */
+export type GraphitiTokenizerEncoding = "o200k_base" | "cl100k_base";
+
+/** Size and division of the injected memory, in tokens. */
+export interface GraphitiBudgetConfig {
+  /** Share (0–1) of the model's context window spent on memory. */
+  contextShare: number;
+  /**
+   * Token counting: `auto` picks the bundled encoding approximating the
+   * session's model, `heuristic` estimates from `charsPerToken`.
+   */
+  tokenizer: "auto" | "heuristic" | GraphitiTokenizerEncoding;
+  /** Characters per token estimated when no encoding is used. */
+  charsPerToken: number;
+  /** Share (0–1) of the budget for project memory; the rest is user memory. */
+  projectShare: number;
+  /**
+   * Share (0–1) of the project memory for the session's workspace package;
+   * the rest is repository-level memory.
+   */
+  packageShare: number;
+  /**
+   * Share (0–1) of the budget for related projects, set aside before the
+   * project and user split when they have memories to inject.
+   */
+  relatedShare: number;
+  /** Maximum tokens of the session snapshot injected with memory. */
+  snapshotTokens: number;
+}
+
+/** Prioritization of facts added to the compaction context. */
+export interface GraphitiCompactionConfig {
+  /** Share (0–1) of each memory section for decision facts. */
+  decisionShare: number;
+  /**
+   * Share (0–1) of each memory section for recently active facts; the
+   * remaining share goes to background facts.
+   */
+  activeShare: number;
+  /** Facts that became valid within this many days count as active. */
+  activeDays: number;
+}
+
+/** Search result cache settings. */
+export interface GraphitiSearchCacheConfig {
+  /** How long results are reused, in milliseconds; `0` disables the cache. */
+  ttlMs: number;
+  /** Maximum number of cached results. */
+  maxEntries: number;
+}
+
+/** Request timeouts in milliseconds per Graphiti operation class. */
+export interface GraphitiTimeouts {
+  /** Fact, node and episode retrieval. */
+  search: number;
+  /** Episode ingestion. */
+  ingest: number;
+  /** Connection setup and status checks. */
+  status: number;
 }
 
 /** A fact retrieved from the Graphiti knowledge graph. */
@@ -62,10 +293,24 @@ export interface GraphitiEpisode {
   source?: string;
   /** Optional source description for the episode. */
   sourceDescription?: string;
-  /** Optional source description (snake_case payload). */
-  source_description?: string;
   /** Optional episode creation timestamp. */
   created_at?: string;
   /** Optional labels associated with the episode. */
   labels?: string[];
 }
+
+/** Parameters for adding an episode to Graphiti memory. */
+export interface GraphitiEpisodeInput {
+  /** Episode title or name. */
+  name: string;
+  /** Episode content body. */
+  episodeBody: string;
+  /** Target group ID for the episode. */
+  groupId?: string;
+  /** Episode source type. */
+  source?: "text" | "json" | "message";
+  /** Free-form description of where the episode came from. */
+  sourceDescription?: string;
+  /** When the episode happened (ISO 8601); now when omitted. */
+  referenceTime?: string;
+}
@@ -1,5 +1,6 @@
 import type { Part } from "@opencode-ai/sdk";
 import os from "node:os";
+import { join } from "node:path";
 import process from "node:process";
 
 const getProjectName = (directory: string) =>
@@ -10,30 +11,89 @@ const getUserName = (
 ) => home?.trim() || undefined;
 
 /**
- * Build a sanitized Graphiti group ID from a prefix and project directory.
+ * Build a sanitized Graphiti group ID from a prefix and project directory,
+ * or from a project name resolved elsewhere (e.g. from the git remote).
  */
 export const makeGroupId = (
   prefix?: string,
   directory = process.cwd(),
+  projectName = getProjectName(directory),
 ): string => {
-  const projectName = getProjectName(directory);
   const rawGroupId = `${prefix?.concat("-")}${projectName}__main`;
   return rawGroupId.replace(/[^A-Za-z0-9_-]/g, "_");
 };
 
 /**
- * Build a sanitized Graphiti group ID from a prefix and user home directory.
+ * Build the group ID of a git branch from the project's main group ID.
+ */
+export const makeBranchGroupId = (
+  mainGroupId: string,
+  branch: string,
+): string =>
+  `${mainGroupId.replace(/__main$/, "")}__branch-${branch}`.replace(
+    /[^A-Za-z0-9_-]/g,
+    "_",
+  );
+
+/**
+ * Build the group ID of a workspace package from the project's main group ID.
+ */
+export const makePackageGroupId = (
+  mainGroupId: string,
+  packageName: string,
+): string =>
+  `${mainGroupId.replace(/__main$/, "")}__pkg-${packageName}`.replace(
+    /[^A-Za-z0-9_-]/g,
+    "_",
+  );
+
+/**
+ * Build a sanitized Graphiti group ID from a prefix and user home directory,
+ * or from a user identity set in the config.
  */
 export const makeUserGroupId = (
   prefix?: string,
   directory = process.cwd(),
+  projectName = getProjectName(directory),
+  userName = getUserName(),
 ): string => {
-  const projectName = getProjectName(directory);
-  const userName = getUserName();
   const rawGroupId = `${prefix?.concat("-")}${projectName}__user-${userName}`;
   return rawGroupId.replace(/[^A-Za-z0-9_-]/g, "_");
 };
 
+/**
+ * Build the group ID of a user shared by all projects. Without a project
+ * part it cannot collide with a project's groups.
+ */
+export const makeGlobalUserGroupId = (
+  prefix?: string,
+  userName = getUserName(),
+): string =>
+  `${prefix ?? ""}__user-${userName}`.replace(/[^A-Za-z0-9_-]/g, "_");
+
+/**
+ * Resolve the plugin's data directory under the OpenCode data directory.
+ */
+export const getDataDir = (): string => {
+  const dataHome = process.env.XDG_DATA_HOME ||
+    join(os.homedir(), ".local", "share");
+  return join(dataHome, "opencode", "graphiti");
+};
+
+/** String literals are matched first so that their contents are kept. */
+const JSONC_COMMENTS = /("(?:[^"\\]|\\.)*")|\/\/[^\n]*|\/\*[\s\S]*?\*\//g;
+const JSONC_TRAILING_COMMAS = /("(?:[^"\\]|\\.)*")|,(?=\s*[}\]])/g;
+
+/** Parse JSON with comments and trailing commas. */
+export const parseJsonc = (content: string): unknown => {
+  const keepStrings = (_match: string, string?: string) => string ?? "";
+  return JSON.parse(
+    content
+      .replace(JSONC_COMMENTS, keepStrings)
+      .replace(JSONC_TRAILING_COMMAS, keepStrings),
+  );
+};
+
 /**
  * Narrow an OpenCode Part to a non-synthetic text part.
  */